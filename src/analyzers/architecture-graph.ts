@@ -0,0 +1,278 @@
+import { AnalysisResult, ClassInfo, CycleInfo, DependencyIssue, ModuleInfo, ProviderInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+import { CycleDetector } from './cycle-detector';
+import { DependencyValidator } from './dependency-validator';
+import { toRelativeId, toRelativePath } from './symbol-ids';
+import { MiddlewareResolver } from './middleware-resolver';
+
+/**
+ * Bumped whenever a field is removed or changes meaning; new optional
+ * fields keep the version.
+ */
+export const GRAPH_SCHEMA_VERSION = 1;
+
+export interface ArchitectureGraph {
+  schemaVersion: number;
+  projects: GraphProject[]; // Nest CLI workspace apps and libs, empty outside monorepos
+  modules: GraphModule[];
+  providers: GraphProvider[];
+  classes: GraphClass[];
+  edges: GraphEdge[];
+}
+
+export interface GraphProject {
+  name: string;
+  type: 'application' | 'library';
+}
+
+export interface GraphModule {
+  id: string; // "<path relative to the project root>#<name>"
+  name: string;
+  filePath: string; // Relative to the project root
+  project?: string;
+  isGlobal: boolean;
+  exports: string[];
+  technology?: string;
+  description?: string;
+  tags?: string[];
+}
+
+export interface GraphProvider {
+  id: string; // "<module ID>/<token>", or the bare token when no module provides it
+  token: string;
+  kind?: ProviderInfo['kind']; // Absent when no module provides the token
+  moduleId?: string;
+  classId?: string; // Class that ends up fulfilling the token
+  factory?: string;
+}
+
+export interface GraphClass {
+  id: string;
+  name: string;
+  filePath: string;
+  classType?: ClassInfo['classType'];
+  stereotype?: string;
+  moduleId?: string;
+  isInjectable: boolean;
+  properties: { name: string; type: string; isPrivate: boolean; isReadonly: boolean }[];
+  methods: { name: string; parameters: string[]; returnType: string; isPrivate: boolean }[];
+  dependencies: GraphDependency[];
+}
+
+export interface GraphDependency {
+  name: string; // Constructor parameter
+  type: string;
+  token?: string; // From @Inject()
+  isOptional: boolean;
+  isForwardRef: boolean;
+  targetId?: string; // Class or, for token injections, provider ID it resolves to
+}
+
+export interface GraphEdge {
+  kind: 'import' | 'dependency' | 'provides' | 'inject' | 'middleware';
+  from: string; // Module IDs for imports; class and provider IDs otherwise
+  to: string;
+  label: string; // As in the D2 diagrams, e.g. "imports (forRoot)" or "@Inject(CLOCK)"
+  moduleId?: string; // For middleware, the module whose configure() applies it
+  isForwardRef?: boolean;
+  isOptional?: boolean;
+  inCycle?: boolean;
+  isUnresolved?: boolean; // Nest can't resolve the dependency, see `nest-d2 check`
+}
+
+/**
+ * Flattens an analysis into a format-neutral graph of modules, providers,
+ * classes and the edges between them, with paths relative to the project.
+ */
+export class ArchitectureGraphBuilder {
+  private cycles: CycleInfo[];
+  private issues: DependencyIssue[];
+
+  constructor(private result: AnalysisResult) {
+    this.cycles = new CycleDetector(result.modules, result.classes).detect();
+    this.issues = new DependencyValidator(result.modules, result.classes).validate();
+  }
+
+  build(): ArchitectureGraph {
+    const { workspace, modules, classes } = this.result;
+    const graph = new DependencyGraph(modules, classes);
+    const providers = new Map<string, GraphProvider>();
+    const edges: GraphEdge[] = [];
+    const drawnTokens = new Set<string>();
+
+    for (const module of modules) {
+      for (const provider of module.providers) {
+        const id = this.getProviderId(provider.token, module);
+        providers.set(id, {
+          id,
+          token: provider.token,
+          kind: provider.kind,
+          moduleId: toRelativeId(this.result.projectPath, module.id),
+          classId: this.optionalId(graph.getProviderClass(provider, module.id)?.id),
+          factory: provider.factory,
+        });
+      }
+    }
+
+    for (const module of modules) {
+      edges.push(...this.getImportEdges(module, graph));
+    }
+
+    const graphClasses = classes.map(classInfo => {
+      const dependencies: GraphDependency[] = [];
+
+      for (const dep of classInfo.dependencies) {
+        const resolved = graph.resolve(classInfo, dep);
+        const flags = {
+          isForwardRef: dep.isForwardRef || undefined,
+          isOptional: dep.isOptional || undefined,
+          inCycle: this.isCycleEdge('provider', classInfo.id, resolved.target?.id) || undefined,
+          isUnresolved: this.issues.some(issue =>
+            issue.filePath === classInfo.filePath && issue.className === classInfo.name && issue.dependency.name === dep.name
+          ) || undefined,
+        };
+
+        // Token injections go consumer -> token -> class or factory that fulfils it
+        let targetId: string | undefined;
+        if (graph.isTokenInjection(dep, resolved)) {
+          targetId = this.getProviderId(resolved.token, resolved.providerModule);
+          if (!providers.has(targetId)) {
+            providers.set(targetId, { id: targetId, token: resolved.token });
+          }
+          edges.push({ kind: 'dependency', from: toRelativeId(this.result.projectPath, classInfo.id), to: targetId, label: `@Inject(${resolved.token})`, ...flags });
+          if (!drawnTokens.has(targetId)) {
+            drawnTokens.add(targetId);
+            if (resolved.target) {
+              edges.push({ kind: 'provides', from: targetId, to: toRelativeId(this.result.projectPath, resolved.target.id), label: resolved.provider?.kind || 'provides' });
+            }
+            for (const injected of resolved.injects) {
+              edges.push({ kind: 'inject', from: targetId, to: toRelativeId(this.result.projectPath, injected.id), label: 'inject' });
+            }
+          }
+        } else if (resolved.target) {
+          targetId = toRelativeId(this.result.projectPath, resolved.target.id);
+          edges.push({ kind: 'dependency', from: toRelativeId(this.result.projectPath, classInfo.id), to: targetId, label: 'depends on', ...flags });
+        }
+
+        dependencies.push({
+          name: dep.name,
+          type: dep.type,
+          token: dep.token,
+          isOptional: dep.isOptional,
+          isForwardRef: dep.isForwardRef ?? false,
+          targetId,
+        });
+      }
+
+      return this.toGraphClass(classInfo, dependencies);
+    });
+
+    edges.push(...this.getMiddlewareEdges());
+
+    return {
+      schemaVersion: GRAPH_SCHEMA_VERSION,
+      projects: workspace.monorepo ? workspace.projects.map(({ name, type }) => ({ name, type })) : [],
+      modules: modules.map(module => ({
+        id: toRelativeId(this.result.projectPath, module.id),
+        name: module.name,
+        filePath: toRelativePath(this.result.projectPath, module.filePath),
+        project: module.project,
+        isGlobal: module.isGlobal,
+        exports: module.exports,
+        technology: module.technology,
+        description: module.description,
+        tags: module.tags,
+      })),
+      providers: [...providers.values()],
+      classes: graphClasses,
+      edges,
+    };
+  }
+
+  private getImportEdges(module: ModuleInfo, graph: DependencyGraph): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+
+    for (const importedModule of module.imports) {
+      const importDetail = module.importDetails.find(i => i.name === importedModule);
+      const target = graph.resolveImport(module, importedModule);
+      if (!target) continue;
+
+      edges.push({
+        kind: 'import',
+        from: toRelativeId(this.result.projectPath, module.id),
+        to: toRelativeId(this.result.projectPath, target.id),
+        label: importDetail?.method ? `imports (${importDetail.method})` : 'imports',
+        isForwardRef: importDetail?.isForwardRef || undefined,
+        inCycle: this.isCycleEdge('module', module.id, target.id) || undefined,
+      });
+    }
+
+    return edges;
+  }
+
+  private getMiddlewareEdges(): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    const { modules, classes } = this.result;
+    const resolver = new MiddlewareResolver(classes);
+
+    for (const module of modules) {
+      for (const binding of module.middleware || []) {
+        const controllers = resolver.getControllers(binding);
+
+        // Functional middleware (e.g. helmet()) has no class node
+        for (const middlewareClass of classes.filter(c => binding.middlewareIds.includes(c.id))) {
+
+          for (const controller of controllers) {
+            edges.push({
+              kind: 'middleware',
+              from: toRelativeId(this.result.projectPath, middlewareClass.id),
+              to: toRelativeId(this.result.projectPath, controller.id),
+              label: 'applies to',
+              moduleId: toRelativeId(this.result.projectPath, module.id),
+            });
+          }
+        }
+      }
+    }
+
+    return edges;
+  }
+
+  private toGraphClass(classInfo: ClassInfo, dependencies: GraphDependency[]): GraphClass {
+    return {
+      id: toRelativeId(this.result.projectPath, classInfo.id),
+      name: classInfo.name,
+      filePath: toRelativePath(this.result.projectPath, classInfo.filePath),
+      classType: classInfo.classType,
+      stereotype: classInfo.stereotype,
+      moduleId: this.optionalId(classInfo.moduleId),
+      isInjectable: classInfo.isInjectable,
+      properties: classInfo.properties.map(({ name, type, isPrivate, isReadonly }) => ({ name, type, isPrivate, isReadonly })),
+      methods: classInfo.methods.map(({ name, parameters, returnType, isPrivate }) => ({
+        name,
+        parameters: parameters.map(unescapeD2),
+        returnType: unescapeD2(returnType),
+        isPrivate,
+      })),
+      dependencies,
+    };
+  }
+
+  private isCycleEdge(kind: CycleInfo['kind'], from: string, to?: string): boolean {
+    if (!to) return false;
+    return this.cycles.some(cycle => cycle.kind === kind && cycle.edges.some(e => e.from === from && e.to === to));
+  }
+
+  private getProviderId(token: string, module?: ModuleInfo): string {
+    return module ? `${toRelativeId(this.result.projectPath, module.id)}/${token}` : token;
+  }
+
+  private optionalId(id: string | undefined): string | undefined {
+    return id === undefined ? undefined : toRelativeId(this.result.projectPath, id);
+  }
+}
+
+// ClassAnalyzer escapes the brackets of method signatures for D2
+function unescapeD2(text: string): string {
+  return text.replace(/\\([[\]])/g, '$1');
+}
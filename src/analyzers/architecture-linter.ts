@@ -0,0 +1,175 @@
+import { relative } from 'path';
+import { ClassInfo, LintViolation, ModuleInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+import {
+  ClassSelector,
+  InjectionInfo,
+  InjectionSelector,
+  LintRules,
+  getRuleId,
+  matchesInjection,
+  matchesPatterns,
+  matchesSelector,
+} from '../lint-rules';
+
+/**
+ * Checks module imports and constructor injections against the layers,
+ * import rules and dependency rules of a rules file.
+ */
+export class ArchitectureLinter {
+  private graph: DependencyGraph;
+  private layers = new Map<string, number>(); // Layer index by class ID
+
+  constructor(
+    private projectPath: string,
+    private modules: ModuleInfo[],
+    private classes: ClassInfo[],
+    private rules: LintRules
+  ) {
+    this.graph = new DependencyGraph(modules, classes);
+    for (const classInfo of classes) {
+      const layer = this.findLayer(classInfo);
+      if (layer !== undefined) this.layers.set(classInfo.id, layer);
+    }
+  }
+
+  lint(): LintViolation[] {
+    return [...this.checkImports(), ...this.checkDependencies()].sort((a, b) =>
+      a.filePath.localeCompare(b.filePath) || (a.line ?? 0) - (b.line ?? 0)
+    );
+  }
+
+  private checkImports(): LintViolation[] {
+    const violations: LintViolation[] = [];
+
+    (this.rules.imports ?? []).forEach((rule, index) => {
+      const ruleId = getRuleId(rule, 'imports', index);
+
+      for (const module of this.modules.filter(m => matchesPatterns(m.name, rule.from))) {
+        for (const importedName of module.imports) {
+          // Only imports of the project's own modules
+          const target = this.graph.resolveImport(module, importedName);
+          if (!target) continue;
+
+          let message: string | undefined;
+          if (rule.allow !== undefined && !matchesPatterns(target.name, rule.allow)) {
+            message = `${module.name} imports ${target.name}, but may only import ${[rule.allow].flat().join(', ')}`;
+          } else if (rule.forbid !== undefined && matchesPatterns(target.name, rule.forbid)) {
+            message = `${module.name} must not import ${target.name}`;
+          }
+          if (!message) continue;
+
+          violations.push({
+            rule: ruleId,
+            severity: rule.severity ?? 'error',
+            kind: 'import',
+            from: module.id,
+            to: target.id,
+            filePath: module.filePath,
+            line: module.importDetails.find(i => i.name === importedName)?.line,
+            message: rule.description ? `${message} (${rule.description})` : message,
+          });
+        }
+      }
+    });
+
+    return violations;
+  }
+
+  private checkDependencies(): LintViolation[] {
+    const violations: LintViolation[] = [];
+    const layers = this.rules.layers ?? [];
+
+    for (const classInfo of this.classes) {
+      for (const dep of classInfo.dependencies) {
+        const target = this.graph.resolve(classInfo, dep).target;
+        const token = this.graph.getToken(dep);
+        // Injections fulfilled outside the project, e.g. by @InjectRepository(), are matched by entity or token
+        const injection: InjectionInfo | undefined = target ? undefined : {
+          injection: dep.entity ? 'repository' : 'token',
+          entity: dep.entity,
+          token,
+        };
+        const targetName = target?.name ?? (dep.entity ? `${dep.type}<${dep.entity}>` : token);
+
+        const violation = (rule: string, severity: LintViolation['severity'], message: string): LintViolation => ({
+          rule,
+          severity,
+          kind: 'dependency',
+          from: classInfo.id,
+          to: target?.id ?? dep.entityId ?? token,
+          dependency: dep.name,
+          filePath: classInfo.filePath,
+          line: dep.line,
+          message,
+        });
+
+        const fromLayer = this.layers.get(classInfo.id);
+        const toLayer = target ? this.layers.get(target.id) : undefined;
+        if (fromLayer !== undefined && toLayer !== undefined && toLayer < fromLayer) {
+          violations.push(violation(
+            'layers',
+            'error',
+            `${classInfo.name} (${layers[fromLayer].name}) injects ${targetName} from the higher layer ${layers[toLayer].name}`
+          ));
+        }
+
+        (this.rules.dependencies ?? []).forEach((rule, index) => {
+          if (!this.matches(classInfo, rule.from)) return;
+
+          const matches = (selector: InjectionSelector) => target
+            ? this.matchesTarget(target, token, selector)
+            : matchesInjection(injection!, selector);
+
+          let message: string | undefined;
+          if (rule.allow !== undefined && !rule.allow.some(matches)) {
+            message = `${classInfo.name} injects ${targetName}, which is not allowed`;
+          } else if (rule.forbid?.some(matches)) {
+            message = `${classInfo.name} must not inject ${targetName}`;
+          }
+          if (!message) return;
+
+          violations.push(violation(
+            getRuleId(rule, 'dependencies', index),
+            rule.severity ?? 'error',
+            rule.description ? `${message} (${rule.description})` : message
+          ));
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * The layer a class belongs to. Layers picking classes by path or name are
+   * more specific than those picking them by type, e.g. a repository service.
+   */
+  private findLayer(classInfo: ClassInfo): number | undefined {
+    const matching = (this.rules.layers ?? [])
+      .map((layer, index) => ({ layer, index }))
+      .filter(({ layer }) => matchesSelector(classInfo, layer, { relativePath: this.relativePath(classInfo) }));
+
+    return (matching.find(({ layer }) => layer.path !== undefined || layer.className !== undefined) ?? matching[0])?.index;
+  }
+
+  // Injected project classes count as "class" injections, under their own token
+  private matchesTarget(target: ClassInfo, token: string, selector: InjectionSelector): boolean {
+    return this.matches(target, selector)
+      && matchesPatterns('class', selector.injection)
+      && selector.entity === undefined
+      && matchesPatterns(token, selector.token);
+  }
+
+  private matches(classInfo: ClassInfo, selector: ClassSelector): boolean {
+    const layer = this.layers.get(classInfo.id);
+    return matchesSelector(classInfo, selector, {
+      relativePath: this.relativePath(classInfo),
+      layer: layer === undefined ? undefined : this.rules.layers![layer].name,
+    });
+  }
+
+  private relativePath(classInfo: ClassInfo): string {
+    return relative(this.projectPath, classInfo.filePath).replace(/\\/g, '/');
+  }
+}
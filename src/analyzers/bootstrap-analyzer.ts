@@ -0,0 +1,114 @@
+import { Project, Node, SyntaxKind } from 'ts-morph';
+import { existsSync } from 'fs';
+import { BootstrapInfo, EnhancerInfo } from '../types';
+
+const GLOBAL_ENHANCER_METHODS: Record<string, keyof EnhancerInfo> = {
+  useGlobalGuards: 'guards',
+  useGlobalInterceptors: 'interceptors',
+  useGlobalPipes: 'pipes',
+  useGlobalFilters: 'filters',
+};
+
+/**
+ * Reads application-wide settings from the bootstrap file (main.ts), such as
+ * app.setGlobalPrefix(), app.enableVersioning() and app.useGlobalGuards().
+ */
+export class BootstrapAnalyzer {
+  private project: Project;
+  private entryFilePath: string;
+
+  constructor(projectPath: string, entryFile: string = 'src/main.ts') {
+    this.project = new Project({
+      tsConfigFilePath: `${projectPath}/tsconfig.json`,
+      skipAddingFilesFromTsConfig: true,
+    });
+    this.entryFilePath = `${projectPath}/${entryFile}`;
+    if (existsSync(this.entryFilePath)) {
+      this.project.addSourceFileAtPath(this.entryFilePath);
+    }
+  }
+
+  analyze(): BootstrapInfo {
+    const sourceFile = this.project.getSourceFile(this.entryFilePath);
+    if (!sourceFile) return {};
+
+    const info: BootstrapInfo = { filePath: sourceFile.getFilePath() };
+
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) continue;
+
+      const [firstArgument] = call.getArguments();
+
+      const enhancerKind = GLOBAL_ENHANCER_METHODS[callee.getName()];
+      if (enhancerKind) {
+        info.globalEnhancers = info.globalEnhancers ?? { guards: [], interceptors: [], pipes: [], filters: [] };
+        info.globalEnhancers[enhancerKind].push(...call.getArguments().map(arg => this.getEnhancerName(arg)));
+        continue;
+      }
+
+      switch (callee.getName()) {
+        case 'setGlobalPrefix':
+          info.globalPrefix = this.getStringValue(firstArgument);
+          break;
+        case 'enableVersioning':
+          info.versioning = this.extractVersioning(firstArgument);
+          break;
+      }
+    }
+
+    return info;
+  }
+
+  private extractVersioning(options: Node | undefined): BootstrapInfo['versioning'] {
+    const versioning: NonNullable<BootstrapInfo['versioning']> = { type: 'URI', prefix: 'v' };
+    if (!options || !Node.isObjectLiteralExpression(options)) return versioning;
+
+    for (const property of options.getProperties()) {
+      if (!Node.isPropertyAssignment(property)) continue;
+      const initializer = property.getInitializer();
+
+      switch (property.getName()) {
+        case 'type': {
+          // VersioningType.URI -> URI
+          const type = initializer?.getText().split('.').pop();
+          if (type === 'URI' || type === 'HEADER' || type === 'MEDIA_TYPE' || type === 'CUSTOM') {
+            versioning.type = type;
+          }
+          break;
+        }
+        case 'prefix':
+          versioning.prefix = initializer?.getText() === 'false' ? '' : this.getStringValue(initializer) ?? 'v';
+          break;
+        case 'defaultVersion':
+          versioning.defaultVersion = this.getStringValue(initializer);
+          break;
+      }
+    }
+
+    return versioning;
+  }
+
+  private getEnhancerName(node: Node): string {
+    // new ValidationPipe({ whitelist: true }) -> ValidationPipe
+    if (Node.isNewExpression(node)) {
+      return node.getExpression().getText();
+    }
+    // app.get(AuthGuard) resolves an instance from the container
+    if (Node.isCallExpression(node) && node.getArguments().length === 1) {
+      return node.getArguments()[0].getText();
+    }
+    return node.getText();
+  }
+
+  private getStringValue(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralText();
+    }
+    if (Node.isArrayLiteralExpression(node)) {
+      return this.getStringValue(node.getElements()[0]);
+    }
+    return node.getText();
+  }
+}
@@ -1,45 +1,134 @@
-import { Project, SourceFile, ClassDeclaration, Node, SyntaxKind } from 'ts-morph';
-import { ClassInfo, DependencyInfo, ModuleInfo, PropertyInfo, MethodInfo } from '../types';
+import { Project, SourceFile, ClassDeclaration, MethodDeclaration, Decorator, Node, SyntaxKind, TypeNode } from 'ts-morph';
+import {
+  ClassInfo, DependencyInfo, ModuleInfo, PropertyInfo, MethodInfo, ControllerInfo, RouteInfo, MethodCallInfo, EnhancerInfo,
+  MessageInfo, ResolverInfo, GraphQLTypeInfo, GraphQLTypeRef, GraphQLOperationInfo, RouteParameterInfo, TypeRefInfo,
+  SourceFilter, CustomClassDecorator,
+} from '../types';
+import { addSourceFiles, DEFAULT_SOURCE_FILTER, SourceProject } from './source-files';
+import { getClassId, resolveClassId } from './symbol-ids';
+
+const HTTP_METHOD_DECORATORS: Record<string, RouteInfo['httpMethod']> = {
+  Get: 'GET',
+  Post: 'POST',
+  Put: 'PUT',
+  Patch: 'PATCH',
+  Delete: 'DELETE',
+  Options: 'OPTIONS',
+  Head: 'HEAD',
+  All: 'ALL',
+};
+
+const ROUTE_PARAMETER_DECORATORS: Record<string, RouteParameterInfo['source']> = {
+  Body: 'body',
+  Query: 'query',
+  Param: 'param',
+  Headers: 'headers',
+};
+
+// @nestjs/swagger response decorators taking { type: UserDto }
+const RESPONSE_DECORATORS = /^Api(\w+)?Response$/;
+
+const ENHANCER_DECORATORS: Record<string, keyof EnhancerInfo> = {
+  UseGuards: 'guards',
+  UseInterceptors: 'interceptors',
+  UsePipes: 'pipes',
+  UseFilters: 'filters',
+};
+
+// Handler decorators from @nestjs/microservices and @nestjs/event-emitter
+const MESSAGE_DECORATORS: Record<string, Pick<MessageInfo, 'transport' | 'style'>> = {
+  MessagePattern: { transport: 'microservice', style: 'request' },
+  EventPattern: { transport: 'microservice', style: 'event' },
+  OnEvent: { transport: 'event-emitter', style: 'event' },
+};
+
+const GRAPHQL_OPERATION_DECORATORS: Record<string, GraphQLOperationInfo['kind']> = {
+  Query: 'query',
+  Mutation: 'mutation',
+  Subscription: 'subscription',
+  ResolveField: 'field',
+};
+
+const GRAPHQL_TYPE_DECORATORS: Record<string, GraphQLTypeInfo['kind']> = {
+  ObjectType: 'object',
+  InputType: 'input',
+  InterfaceType: 'interface',
+};
+
+// TypeScript types that map to GraphQL scalars when no type function is given
+const GRAPHQL_SCALARS: Record<string, string> = {
+  string: 'String',
+  number: 'Float',
+  boolean: 'Boolean',
+  Date: 'Date',
+};
+
+interface MessagingClient {
+  transport: MessageInfo['transport'];
+  queue?: string; // For @InjectQueue('name') queues
+}
 
 export class ClassAnalyzer {
   private project: Project;
-
-  constructor(projectPath: string) {
+  private cache = new Map<string, ClassInfo[]>(); // By file path, before classes are mapped to modules
+
+  constructor(
+    projectPath: string,
+    sources: SourceFilter = DEFAULT_SOURCE_FILTER,
+    shared?: SourceProject,
+    private decorators: Record<string, CustomClassDecorator> = {} // By decorator name, from plugins
+  ) {
+    if (shared) {
+      this.project = shared.project;
+      return;
+    }
     this.project = new Project({
       tsConfigFilePath: `${projectPath}/tsconfig.json`,
       skipAddingFilesFromTsConfig: true,
     });
-    this.project.addSourceFilesAtPaths(`${projectPath}/src/**/*.ts`);
+    addSourceFiles(this.project, projectPath, sources);
   }
 
   analyze(modules?: ModuleInfo[]): ClassInfo[] {
     const classes: ClassInfo[] = [];
     const sourceFiles = this.project.getSourceFiles();
 
-    // Build a map of class names to their module context
-    const classToModuleMap = new Map<string, string>();
+    // Map classes to their module, by ID and by name for classes that could
+    // not be resolved
+    const classToModuleMap = new Map<string, ModuleInfo>();
     if (modules) {
       for (const module of modules) {
         const allClasses = [
           ...module.controllers,
-          ...module.providers,
+          ...module.providers
+            .map(provider => provider.useClass)
+            .filter((className): className is string => className !== undefined),
           ...(module.guards || []),
           ...(module.interceptors || []),
           ...(module.pipes || []),
           ...(module.filters || []),
         ];
         for (const className of allClasses) {
-          classToModuleMap.set(className, module.name);
+          if (!classToModuleMap.has(className)) classToModuleMap.set(className, module);
+        }
+        for (const classId of module.classIds) {
+          classToModuleMap.set(classId, module);
         }
       }
     }
 
     for (const sourceFile of sourceFiles) {
       // Skip module files
-      if (sourceFile.getFilePath().endsWith('.module.ts')) continue;
-      
-      const classInfos = this.analyzeSourceFile(sourceFile, classToModuleMap);
-      classes.push(...classInfos);
+      const filePath = sourceFile.getFilePath();
+      if (filePath.endsWith('.module.ts')) continue;
+
+      if (!this.cache.has(filePath)) {
+        this.cache.set(filePath, this.analyzeSourceFile(sourceFile));
+      }
+      for (const classInfo of this.cache.get(filePath)!) {
+        const module = classToModuleMap.get(classInfo.id) ?? classToModuleMap.get(classInfo.name);
+        classes.push({ ...classInfo, moduleContext: module?.name, moduleId: module?.id });
+      }
     }
 
     // Filter to include only classes that are either:
@@ -48,7 +137,7 @@ export class ClassAnalyzer {
     const referencedTypes = new Set<string>();
     for (const classInfo of classes) {
       for (const dep of classInfo.dependencies) {
-        referencedTypes.add(dep.type);
+        referencedTypes.add(dep.typeId ?? dep.type);
       }
       // Also add properties and method parameter types as referenced
       for (const prop of classInfo.properties) {
@@ -65,15 +154,26 @@ export class ClassAnalyzer {
       }
     }
 
-    return classes.filter(c => c.moduleContext || referencedTypes.has(c.name));
+    return classes.filter(c =>
+      c.moduleContext || c.graphqlType || referencedTypes.has(c.id) || referencedTypes.has(c.name)
+    );
   }
 
-  private analyzeSourceFile(sourceFile: SourceFile, classToModuleMap: Map<string, string>): ClassInfo[] {
+  /**
+   * Forgets the analysis of changed files, so the next analyze() reads them again.
+   */
+  invalidate(filePaths: Iterable<string>): void {
+    for (const filePath of filePaths) {
+      this.cache.delete(filePath);
+    }
+  }
+
+  private analyzeSourceFile(sourceFile: SourceFile): ClassInfo[] {
     const classes: ClassInfo[] = [];
     const classDeclarations = sourceFile.getClasses();
 
     for (const classDeclaration of classDeclarations) {
-      const classInfo = this.analyzeClass(classDeclaration, sourceFile, classToModuleMap);
+      const classInfo = this.analyzeClass(classDeclaration, sourceFile);
       if (classInfo) {
         classes.push(classInfo);
       }
@@ -82,22 +182,23 @@ export class ClassAnalyzer {
     return classes;
   }
 
-  private analyzeClass(
-    classDeclaration: ClassDeclaration,
-    sourceFile: SourceFile,
-    classToModuleMap: Map<string, string>
-  ): ClassInfo | null {
+  private analyzeClass(classDeclaration: ClassDeclaration, sourceFile: SourceFile): ClassInfo | null {
     const name = classDeclaration.getName();
     if (!name) return null;
 
     const dependencies = this.extractDependencies(classDeclaration);
     const properties = this.extractProperties(classDeclaration);
-    const methods = this.extractMethods(classDeclaration);
-    const isInjectable = this.hasInjectableDecorator(classDeclaration);
-    const classType = this.determineClassType(classDeclaration);
-    const moduleContext = classToModuleMap.get(name);
+    const methods = this.extractMethods(classDeclaration, dependencies);
+    // Plugin decorators take precedence over the built-in classification
+    const custom = classDeclaration.getDecorators().map(decorator => decorator.getName()).find(name => this.decorators[name]);
+    const customRule = custom ? this.decorators[custom] : undefined;
+    const isInjectable = this.hasInjectableDecorator(classDeclaration) || (customRule !== undefined && customRule.injectable !== false);
+    const classType = customRule ? customRule.classType ?? 'service' : this.determineClassType(classDeclaration);
+    const id = getClassId(classDeclaration);
+    const controller = this.extractControllerInfo(classDeclaration);
 
     return {
+      id,
       name,
       filePath: sourceFile.getFilePath(),
       dependencies,
@@ -105,13 +206,19 @@ export class ClassAnalyzer {
       methods,
       isInjectable,
       classType,
-      moduleContext,
+      stereotype: customRule ? customRule.stereotype ?? custom : undefined,
+      controller,
+      enhancers: this.extractEnhancers(classDeclaration.getDecorators()),
+      messages: this.extractMessages(classDeclaration),
+      resolver: this.extractResolverInfo(classDeclaration),
+      graphqlType: this.extractGraphQLType(classDeclaration),
     };
   }
 
   private determineClassType(classDeclaration: ClassDeclaration): ClassInfo['classType'] {
     // Check for specific decorators
     if (classDeclaration.getDecorator('Controller')) return 'controller';
+    if (classDeclaration.getDecorator('Resolver')) return 'resolver';
     if (classDeclaration.getDecorator('Injectable')) {
       // Check if it's a guard, interceptor, pipe, or filter by interface/extends
       const implementsClause = classDeclaration.getImplements();
@@ -170,35 +277,78 @@ export class ClassAnalyzer {
 
       // Clean up the type name
       typeName = this.extractTypeName(typeName);
-      
-      // Skip primitive types and common non-injectable types
-      if (this.isPrimitiveOrCommon(typeName)) continue;
 
       // Check for @Inject decorator
       const injectDecorator = param.getDecorator('Inject');
       let token: string | undefined;
+      let tokenId: string | undefined;
+      let typeId = resolveClassId(typeNode);
+      let isForwardRef = false;
       
       if (injectDecorator) {
         const args = injectDecorator.getArguments();
-        if (args.length > 0) {
-          token = args[0].getText().replace(/['"]/g, '');
+        // forwardRef(() => SomeService) injects the class itself, not a token
+        isForwardRef = args.length > 0 && args[0].getText().startsWith('forwardRef');
+        if (args.length > 0 && !isForwardRef) {
+          token = args[0].getText().replace(/['"`]/g, '');
+          tokenId = resolveClassId(args[0]);
+        } else if (isForwardRef) {
+          typeId = resolveClassId(args[0]) ?? typeId;
         }
       }
 
+      // Skip primitive types and common non-injectable types, unless injected by token
+      if (!token && this.isPrimitiveOrCommon(typeName)) continue;
+
+      // @InjectRepository(User) and @InjectModel(Cat.name) name the entity behind the repository
+      const entityDecorator = param.getDecorator('InjectRepository') ?? param.getDecorator('InjectModel');
+      let entityNode = entityDecorator?.getArguments()[0];
+      if (entityNode && Node.isPropertyAccessExpression(entityNode) && entityNode.getName() === 'name') {
+        entityNode = entityNode.getExpression();
+      }
+
       // Check if optional (has ? or @Optional decorator)
       const isOptional = param.hasQuestionToken() || param.getDecorator('Optional') !== undefined;
 
       dependencies.push({
         name: param.getName(),
         type: typeName,
+        typeId,
         isOptional,
         token,
+        tokenId,
+        isForwardRef,
+        entity: entityNode ? this.getStringValue(entityNode) : undefined,
+        entityId: resolveClassId(entityNode),
+        prismaModels: /^Prisma(Service|Client)$/.test(typeName)
+          ? this.extractPrismaModels(classDeclaration, param.getName())
+          : undefined,
+        line: param.getStartLineNumber(),
       });
     }
 
     return dependencies;
   }
 
+  /**
+   * Model delegates a class uses through an injected Prisma client,
+   * e.g. 'user' for this.prisma.user.findMany().
+   */
+  private extractPrismaModels(classDeclaration: ClassDeclaration, dependencyName: string): string[] {
+    const models = new Set<string>();
+
+    for (const access of classDeclaration.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)) {
+      const receiver = access.getExpression();
+      if (!Node.isPropertyAccessExpression(receiver) || receiver.getName() !== dependencyName) continue;
+      if (receiver.getExpression().getKind() !== SyntaxKind.ThisKeyword) continue;
+
+      // $transaction, $connect and friends are client methods, not models
+      if (!access.getName().startsWith('$')) models.add(access.getName());
+    }
+
+    return [...models];
+  }
+
   private extractProperties(classDeclaration: ClassDeclaration): PropertyInfo[] {
     const properties: PropertyInfo[] = [];
     const props = classDeclaration.getProperties();
@@ -220,7 +370,415 @@ export class ClassAnalyzer {
     return properties;
   }
 
-  private extractMethods(classDeclaration: ClassDeclaration): MethodInfo[] {
+  private extractControllerInfo(classDeclaration: ClassDeclaration): ControllerInfo | undefined {
+    const decorator = classDeclaration.getDecorator('Controller');
+    if (!decorator) return undefined;
+
+    const [options] = decorator.getArguments();
+    const version = this.getDecoratorString(classDeclaration.getDecorator('Version'));
+
+    // @Controller({ path: 'users', version: '1' })
+    if (options && Node.isObjectLiteralExpression(options)) {
+      const pathProperty = options.getProperty('path');
+      const versionProperty = options.getProperty('version');
+      return {
+        path: Node.isPropertyAssignment(pathProperty) ? this.getStringValue(pathProperty.getInitializer()) ?? '' : '',
+        version: Node.isPropertyAssignment(versionProperty)
+          ? this.getStringValue(versionProperty.getInitializer()) ?? version
+          : version,
+      };
+    }
+
+    return {
+      path: this.getDecoratorString(decorator) ?? '',
+      version,
+    };
+  }
+
+  private extractRoute(method: MethodDeclaration): RouteInfo | undefined {
+    for (const decorator of method.getDecorators()) {
+      const httpMethod = HTTP_METHOD_DECORATORS[decorator.getName()];
+      if (!httpMethod) continue;
+
+      return {
+        httpMethod,
+        path: this.getDecoratorString(decorator) ?? '',
+        version: this.getDecoratorString(method.getDecorator('Version')),
+      };
+    }
+
+    return undefined;
+  }
+
+  private extractEnhancers(decorators: Decorator[]): EnhancerInfo | undefined {
+    const enhancers: EnhancerInfo = { guards: [], interceptors: [], pipes: [], filters: [] };
+
+    for (const decorator of decorators) {
+      const kind = ENHANCER_DECORATORS[decorator.getName()];
+      if (!kind) continue;
+      enhancers[kind].push(...decorator.getArguments().map(arg => this.getEnhancerName(arg)));
+    }
+
+    const hasEnhancers = Object.values(enhancers).some(list => list.length > 0);
+    return hasEnhancers ? enhancers : undefined;
+  }
+
+  /**
+   * Pipes passed to parameter decorators, e.g. @Param('id', ParseIntPipe)
+   * or @Body(new ValidationPipe()).
+   */
+  private extractParameterPipes(method: MethodDeclaration): string[] | undefined {
+    const pipes: string[] = [];
+
+    for (const param of method.getParameters()) {
+      for (const decorator of param.getDecorators()) {
+        for (const arg of decorator.getArguments()) {
+          if (Node.isStringLiteral(arg) || Node.isObjectLiteralExpression(arg)) continue;
+          pipes.push(this.getEnhancerName(arg));
+        }
+      }
+    }
+
+    return pipes.length > 0 ? pipes : undefined;
+  }
+
+  private getEnhancerName(node: Node): string {
+    // new ValidationPipe({ whitelist: true }) -> ValidationPipe
+    if (Node.isNewExpression(node)) {
+      return node.getExpression().getText();
+    }
+    // AuthGuard('jwt') keeps its arguments, they identify the strategy
+    return node.getText().replace(/\s+/g, ' ');
+  }
+
+  private extractMethodCalls(method: MethodDeclaration, dependencies: DependencyInfo[]): MethodCallInfo[] {
+    const calls: MethodCallInfo[] = [];
+    const dependencyNames = new Set(dependencies.map(dep => dep.name));
+
+    for (const call of method.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      // Match this.<dependency>.<method>(...)
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) continue;
+
+      const receiver = callee.getExpression();
+      if (!Node.isPropertyAccessExpression(receiver)) continue;
+      if (receiver.getExpression().getKind() !== SyntaxKind.ThisKeyword) continue;
+
+      const dependency = receiver.getName();
+      const methodName = callee.getName();
+      if (!dependencyNames.has(dependency)) continue;
+      if (calls.some(c => c.dependency === dependency && c.method === methodName)) continue;
+
+      calls.push({ dependency, method: methodName });
+    }
+
+    return calls;
+  }
+
+  private extractResolverInfo(classDeclaration: ClassDeclaration): ResolverInfo | undefined {
+    const decorator = classDeclaration.getDecorator('Resolver');
+    if (!decorator) return undefined;
+
+    // @Resolver(() => User), @Resolver(User) or schema-first @Resolver('User')
+    const [argument] = decorator.getArguments();
+    if (!argument || Node.isObjectLiteralExpression(argument)) return {};
+    if (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument)) {
+      return { type: argument.getLiteralText() };
+    }
+
+    const typeNode = Node.isArrowFunction(argument) ? argument.getBody() : argument;
+    return { type: typeNode.getText(), typeId: resolveClassId(typeNode) };
+  }
+
+  private extractGraphQLType(classDeclaration: ClassDeclaration): GraphQLTypeInfo | undefined {
+    const decorator = classDeclaration.getDecorators().find(d => GRAPHQL_TYPE_DECORATORS[d.getName()]);
+    if (!decorator) return undefined;
+
+    const [nameArgument] = decorator.getArguments();
+    const fields = classDeclaration.getProperties()
+      .filter(property => property.getDecorator('Field'))
+      .map(property => ({
+        name: property.getName(),
+        ...this.getGraphQLTypeRef(property.getDecorator('Field')!.getArguments(), property.getTypeNode()),
+      }));
+
+    return {
+      kind: GRAPHQL_TYPE_DECORATORS[decorator.getName()],
+      name: nameArgument && Node.isStringLiteral(nameArgument) ? nameArgument.getLiteralText() : classDeclaration.getName()!,
+      fields,
+    };
+  }
+
+  private extractGraphQLOperation(method: MethodDeclaration): GraphQLOperationInfo | undefined {
+    const decorator = method.getDecorators().find(d => GRAPHQL_OPERATION_DECORATORS[d.getName()]);
+    if (!decorator) return undefined;
+
+    const args = decorator.getArguments();
+    // @ResolveField('posts', () => [Post]) names the field first
+    const [first] = args;
+    const fieldName = first && Node.isStringLiteral(first) ? first.getLiteralText() : undefined;
+    const options = args.find(Node.isObjectLiteralExpression);
+    const nameProperty = options?.getProperty('name');
+    const optionName = Node.isPropertyAssignment(nameProperty) ? this.getStringValue(nameProperty.getInitializer()) : undefined;
+
+    return {
+      kind: GRAPHQL_OPERATION_DECORATORS[decorator.getName()],
+      name: fieldName ?? optionName ?? method.getName(),
+      ...this.getGraphQLTypeRef(args, method.getReturnTypeNode()),
+    };
+  }
+
+  /**
+   * GraphQL type from a decorator's type function (`() => [Post]`), falling
+   * back to the TypeScript type, with `nullable` from the options object.
+   */
+  private getGraphQLTypeRef(decoratorArgs: Node[], typeNode: TypeNode | undefined): GraphQLTypeRef {
+    const typeFunction = decoratorArgs.find(Node.isArrowFunction);
+    const options = decoratorArgs.find(Node.isObjectLiteralExpression);
+    const nullableProperty = options?.getProperty('nullable');
+    const isNullable = Node.isPropertyAssignment(nullableProperty) && nullableProperty.getInitializer()?.getText() !== 'false';
+
+    if (typeFunction) {
+      let body: Node = typeFunction.getBody();
+      const isList = Node.isArrayLiteralExpression(body);
+      if (Node.isArrayLiteralExpression(body)) {
+        body = body.getElements()[0] ?? body;
+      }
+      return { type: body.getText(), typeId: resolveClassId(body), isList, isNullable };
+    }
+
+    const { type, typeId, isList } = this.getTypeRef(typeNode);
+    return { type: GRAPHQL_SCALARS[type] ?? type, typeId, isList, isNullable };
+  }
+
+  /**
+   * The type a node names, unwrapping Promise<T>, Observable<T>, T[] and
+   * Array<T>.
+   */
+  private getTypeRef(typeNode: TypeNode | undefined): TypeRefInfo {
+    let node: Node | undefined = typeNode;
+    let isList = false;
+    while (node) {
+      if (Node.isArrayTypeNode(node)) {
+        isList = true;
+        node = node.getElementTypeNode();
+      } else if (Node.isTypeReference(node) && ['Promise', 'Observable', 'Array'].includes(node.getTypeName().getText()) && node.getTypeArguments().length > 0) {
+        isList = isList || node.getTypeName().getText() === 'Array';
+        node = node.getTypeArguments()[0];
+      } else {
+        break;
+      }
+    }
+
+    return {
+      type: node ? this.extractTypeName(node.getText()) : 'Unknown',
+      typeId: Node.isTypeReference(node) ? resolveClassId(node) : undefined,
+      isList,
+    };
+  }
+
+  /**
+   * Parameters bound from the request, e.g. @Body() dto: CreateUserDto or
+   * @Param('id') id: string.
+   */
+  private extractRouteParameters(method: MethodDeclaration): RouteParameterInfo[] | undefined {
+    const parameters: RouteParameterInfo[] = [];
+
+    for (const param of method.getParameters()) {
+      const decorator = param.getDecorators().find(d => ROUTE_PARAMETER_DECORATORS[d.getName()]);
+      if (!decorator) continue;
+
+      const [first] = decorator.getArguments();
+      parameters.push({
+        name: param.getName(),
+        source: ROUTE_PARAMETER_DECORATORS[decorator.getName()],
+        key: first && (Node.isStringLiteral(first) || Node.isNoSubstitutionTemplateLiteral(first)) ? first.getLiteralText() : undefined,
+        ...this.getTypeRef(param.getTypeNode()),
+      });
+    }
+
+    return parameters.length > 0 ? parameters : undefined;
+  }
+
+  /**
+   * Response DTO from @ApiOkResponse({ type: UserDto }) or
+   * @ApiResponse({ type: [UserDto] }), else from the return type annotation.
+   */
+  private extractResponseType(method: MethodDeclaration): TypeRefInfo | undefined {
+    for (const decorator of method.getDecorators()) {
+      if (!RESPONSE_DECORATORS.test(decorator.getName())) continue;
+
+      const options = decorator.getArguments().find(Node.isObjectLiteralExpression);
+      const typeProperty = options?.getProperty('type');
+      let typeNode: Node | undefined = Node.isPropertyAssignment(typeProperty) ? typeProperty.getInitializer() : undefined;
+      if (typeNode && Node.isArrowFunction(typeNode)) {
+        typeNode = typeNode.getBody();
+      }
+      if (!typeNode) continue;
+
+      const isList = Node.isArrayLiteralExpression(typeNode);
+      if (Node.isArrayLiteralExpression(typeNode)) {
+        typeNode = typeNode.getElements()[0];
+      }
+      const typeId = resolveClassId(typeNode);
+      if (typeNode && typeId) {
+        return { type: typeNode.getText(), typeId, isList };
+      }
+    }
+
+    const returnType = this.getTypeRef(method.getReturnTypeNode());
+    return returnType.typeId ? returnType : undefined;
+  }
+
+  /**
+   * Message handlers (@MessagePattern, @EventPattern, @OnEvent, Bull
+   * processors) and the messages sent through injected clients, event
+   * emitters and queues.
+   */
+  private extractMessages(classDeclaration: ClassDeclaration): MessageInfo[] | undefined {
+    const messages: MessageInfo[] = [];
+    const clients = this.getMessagingClients(classDeclaration);
+    const processorQueue = this.getQueueName(classDeclaration.getDecorator('Processor'));
+    // BullMQ processors extend WorkerHost and handle every job in process()
+    const isWorkerHost = classDeclaration.getExtends()?.getExpression().getText() === 'WorkerHost';
+
+    for (const method of classDeclaration.getMethods()) {
+      const name = method.getName();
+      const line = method.getStartLineNumber();
+
+      for (const decorator of method.getDecorators()) {
+        const handler = MESSAGE_DECORATORS[decorator.getName()];
+        const channel = handler && this.getMessageChannel(decorator.getArguments()[0]);
+        if (channel) {
+          messages.push({ channel, ...handler, role: 'consumer', method: name, line });
+        }
+      }
+
+      const processDecorator = method.getDecorator('Process');
+      if (processorQueue && (processDecorator || (isWorkerHost && name === 'process'))) {
+        const job = this.getQueueName(processDecorator);
+        messages.push({ channel: processorQueue, transport: 'queue', style: 'job', role: 'consumer', method: name, job, line });
+      }
+
+      for (const call of method.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        // Match this.<client>.<send|emit|add>(...)
+        const callee = call.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) continue;
+
+        const receiver = callee.getExpression();
+        if (!Node.isPropertyAccessExpression(receiver)) continue;
+        if (receiver.getExpression().getKind() !== SyntaxKind.ThisKeyword) continue;
+
+        const client = clients.get(receiver.getName());
+        const [firstArgument] = call.getArguments();
+        const called = callee.getName();
+        if (!client) continue;
+
+        const producer = { role: 'producer' as const, method: name, line: call.getStartLineNumber() };
+        if (client.queue && (called === 'add' || called === 'addBulk')) {
+          const job = called === 'add' ? this.getMessageChannel(firstArgument) : undefined;
+          messages.push({ channel: client.queue, transport: 'queue', style: 'job', job, ...producer });
+          continue;
+        }
+
+        const channel = this.getMessageChannel(firstArgument);
+        if (!channel) continue;
+        if (client.transport === 'microservice' && (called === 'send' || called === 'emit')) {
+          messages.push({ channel, transport: 'microservice', style: called === 'send' ? 'request' : 'event', ...producer });
+        } else if (client.transport === 'event-emitter' && (called === 'emit' || called === 'emitAsync')) {
+          messages.push({ channel, transport: 'event-emitter', style: 'event', ...producer });
+        }
+      }
+    }
+
+    return messages.length > 0 ? messages : undefined;
+  }
+
+  /**
+   * Constructor parameters that send messages: ClientProxy and its
+   * transport-specific subclasses, EventEmitter2 and @InjectQueue() queues.
+   */
+  private getMessagingClients(classDeclaration: ClassDeclaration): Map<string, MessagingClient> {
+    const clients = new Map<string, MessagingClient>();
+    const [constructor] = classDeclaration.getConstructors();
+    if (!constructor) return clients;
+
+    for (const param of constructor.getParameters()) {
+      const typeName = this.extractTypeName(param.getTypeNode()?.getText() ?? '');
+      const injectQueue = param.getDecorator('InjectQueue');
+
+      if (injectQueue) {
+        clients.set(param.getName(), { transport: 'queue', queue: this.getDecoratorString(injectQueue) ?? 'default' });
+      } else if (typeName === 'EventEmitter2') {
+        clients.set(param.getName(), { transport: 'event-emitter' });
+      } else if (/^Client[A-Z]/.test(typeName) && typeName !== 'ClientGrpc') {
+        clients.set(param.getName(), { transport: 'microservice' });
+      }
+    }
+
+    return clients;
+  }
+
+  /**
+   * @Processor('email') / @Process('welcome'), or the object form with a
+   * `name` property.
+   */
+  private getQueueName(decorator: Decorator | undefined): string | undefined {
+    const [argument] = decorator?.getArguments() ?? [];
+    if (argument && Node.isObjectLiteralExpression(argument)) {
+      const nameProperty = argument.getProperty('name');
+      return Node.isPropertyAssignment(nameProperty) ? this.getMessageChannel(nameProperty.getInitializer()) : undefined;
+    }
+    return this.getMessageChannel(argument);
+  }
+
+  /**
+   * Pattern or event name as written: string values of literals, constants
+   * and enum members, or `{ cmd: 'sum' }` for object patterns.
+   */
+  private getMessageChannel(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralText();
+    }
+    if (Node.isObjectLiteralExpression(node)) {
+      const properties = node.getProperties().map(property => {
+        if (!Node.isPropertyAssignment(property)) return property.getText();
+        const initializer = property.getInitializer();
+        const value = initializer?.getType().isStringLiteral()
+          ? `'${this.getMessageChannel(initializer)}'`
+          : initializer?.getText();
+        return `${property.getName()}: ${value}`;
+      });
+      return `{ ${properties.join(', ')} }`;
+    }
+
+    const type = node.getType();
+    return type.isStringLiteral() ? String(type.getLiteralValue()) : node.getText();
+  }
+
+  /**
+   * Reads the first argument of a decorator as a string, e.g. 'users' from
+   * @Controller('users') or @Get(['users', 'people']).
+   */
+  private getDecoratorString(decorator: Decorator | undefined): string | undefined {
+    if (!decorator) return undefined;
+    const [argument] = decorator.getArguments();
+    return this.getStringValue(argument);
+  }
+
+  private getStringValue(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralText();
+    }
+    if (Node.isArrayLiteralExpression(node)) {
+      return this.getStringValue(node.getElements()[0]);
+    }
+    return node.getText();
+  }
+
+  private extractMethods(classDeclaration: ClassDeclaration, dependencies: DependencyInfo[]): MethodInfo[] {
     const methods: MethodInfo[] = [];
     const methodDeclarations = classDeclaration.getMethods();
 
@@ -259,11 +817,20 @@ export class ClassAnalyzer {
       // Escape brackets in return type
       returnType = returnType.replace(/\[/g, '\\[').replace(/\]/g, '\\]');
 
+      const route = this.extractRoute(method);
       methods.push({
         name,
         returnType,
         isPrivate,
         parameters,
+        route,
+        graphql: this.extractGraphQLOperation(method),
+        calls: this.extractMethodCalls(method, dependencies),
+        enhancers: this.extractEnhancers(method.getDecorators()),
+        parameterPipes: this.extractParameterPipes(method),
+        routeParameters: route ? this.extractRouteParameters(method) : undefined,
+        responseType: route ? this.extractResponseType(method) : undefined,
+        line: method.getStartLineNumber(),
       });
     }
 
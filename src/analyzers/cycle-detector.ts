@@ -0,0 +1,152 @@
+import { ClassInfo, CycleEdge, CycleInfo, ModuleInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+
+/**
+ * Finds circular dependencies in the module import graph and the provider
+ * injection graph using Tarjan's strongly connected components algorithm.
+ */
+export class CycleDetector {
+  constructor(private modules: ModuleInfo[], private classes: ClassInfo[] = []) {}
+
+  detect(): CycleInfo[] {
+    return [...this.detectModuleCycles(), ...this.detectProviderCycles()];
+  }
+
+  detectModuleCycles(): CycleInfo[] {
+    const graph = new DependencyGraph(this.modules, this.classes);
+    const edges: CycleEdge[] = [];
+
+    for (const module of this.modules) {
+      for (const importedName of module.imports) {
+        const importDetail = module.importDetails.find(i => i.name === importedName);
+        const imported = graph.resolveImport(module, importedName);
+        if (!imported) continue;
+        edges.push({ from: module.id, to: imported.id, isForwardRef: importDetail?.isForwardRef ?? false });
+      }
+    }
+
+    return this.findCycles('module', edges, new Map(this.modules.map(m => [m.id, m.name])));
+  }
+
+  detectProviderCycles(): CycleInfo[] {
+    const graph = new DependencyGraph(this.modules, this.classes);
+    const edges: CycleEdge[] = [];
+
+    for (const classInfo of this.classes) {
+      for (const dep of classInfo.dependencies) {
+        const target = graph.resolve(classInfo, dep).target;
+        if (!target) continue;
+        edges.push({ from: classInfo.id, to: target.id, isForwardRef: dep.isForwardRef ?? false });
+      }
+    }
+
+    return this.findCycles('provider', edges, new Map(this.classes.map(c => [c.id, c.name])));
+  }
+
+  /**
+   * Edges connect IDs; members and paths are reported with display names.
+   */
+  private findCycles(kind: CycleInfo['kind'], edges: CycleEdge[], names: Map<string, string>): CycleInfo[] {
+    const nameOf = (id: string) => names.get(id) ?? id;
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+      if (!adjacency.has(edge.from)) adjacency.set(edge.from, []);
+      if (!adjacency.has(edge.to)) adjacency.set(edge.to, []);
+      adjacency.get(edge.from)!.push(edge.to);
+    }
+
+    const cycles: CycleInfo[] = [];
+    for (const component of this.stronglyConnectedComponents(adjacency)) {
+      const members = new Set(component);
+      const cycleEdges = edges.filter(e => members.has(e.from) && members.has(e.to));
+
+      // Single nodes only form a cycle when they depend on themselves
+      if (component.length === 1 && cycleEdges.length === 0) continue;
+
+      const guardedEdges = cycleEdges.filter(e => e.isForwardRef).length;
+      cycles.push({
+        kind,
+        members: component.map(nameOf),
+        path: this.findCyclePath(component[0], members, adjacency).map(nameOf),
+        edges: cycleEdges,
+        unguardedEdges: cycleEdges.filter(e => !e.isForwardRef).map((e): [string, string] => [nameOf(e.from), nameOf(e.to)]),
+        guard: guardedEdges === cycleEdges.length ? 'guarded' : guardedEdges > 0 ? 'partial' : 'unguarded',
+      });
+    }
+
+    return cycles;
+  }
+
+  private stronglyConnectedComponents(adjacency: Map<string, string[]>): string[][] {
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let index = 0;
+
+    const visit = (node: string) => {
+      indexes.set(node, index);
+      lowLinks.set(node, index);
+      index++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const next of adjacency.get(node) || []) {
+        if (!indexes.has(next)) {
+          visit(next);
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(next)!));
+        }
+      }
+
+      // Node is the root of a component: pop it off the stack
+      if (lowLinks.get(node) === indexes.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component.reverse());
+      }
+    };
+
+    for (const node of adjacency.keys()) {
+      if (!indexes.has(node)) visit(node);
+    }
+
+    return components;
+  }
+
+  /**
+   * Breadth-first search for the shortest way back to the start node,
+   * staying inside the component.
+   */
+  private findCyclePath(start: string, members: Set<string>, adjacency: Map<string, string[]>): string[] {
+    const previous = new Map<string, string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      for (const next of adjacency.get(node) || []) {
+        if (!members.has(next)) continue;
+        if (next === start) {
+          const path = [start];
+          for (let current = node; current !== start; current = previous.get(current)!) {
+            path.splice(1, 0, current);
+          }
+          return [...path, start];
+        }
+        if (!previous.has(next)) {
+          previous.set(next, node);
+          queue.push(next);
+        }
+      }
+    }
+
+    return [start, start];
+  }
+}
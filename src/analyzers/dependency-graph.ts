@@ -0,0 +1,182 @@
+import { ClassInfo, DependencyInfo, ModuleInfo, ProviderInfo } from '../types';
+
+export interface ResolvedDependency {
+  token: string;
+  provider?: ProviderInfo;
+  providerModule?: ModuleInfo; // Module that registers the provider
+  target?: ClassInfo; // Class that ultimately fulfils the dependency
+  injects: ClassInfo[]; // Factory dependencies, for useFactory providers
+}
+
+/**
+ * A token as written in the code, plus the class ID when it names a class.
+ */
+export interface TokenRef {
+  name: string;
+  id?: string;
+}
+
+/**
+ * Connects constructor dependencies to the providers that fulfil them,
+ * following injection tokens through custom providers.
+ */
+export class DependencyGraph {
+  constructor(private modules: ModuleInfo[], private classes: ClassInfo[]) {}
+
+  findClass(name: string): ClassInfo | undefined {
+    return this.classes.find(c => c.name === name);
+  }
+
+  /**
+   * Resolved references only match by ID, so classes sharing a name in
+   * different files are never confused.
+   */
+  findClassByRef(ref: TokenRef): ClassInfo | undefined {
+    return ref.id ? this.classes.find(c => c.id === ref.id) : this.findClass(ref.name);
+  }
+
+  /**
+   * The project module an import names: by ID when it was resolved, else by
+   * name, preferring a module of the importing module's app or lib.
+   */
+  resolveImport(module: ModuleInfo, importedName: string): ModuleInfo | undefined {
+    const importDetail = module.importDetails.find(i => i.name === importedName);
+    if (importDetail?.id) return this.modules.find(m => m.id === importDetail.id);
+    return this.modules.find(m => m.name === importedName && m.project === module.project)
+      ?? this.modules.find(m => m.name === importedName);
+  }
+
+  getToken(dep: DependencyInfo): string {
+    return dep.token ?? dep.type;
+  }
+
+  getTokenRef(dep: DependencyInfo): TokenRef {
+    return dep.token !== undefined
+      ? { name: dep.token, id: dep.tokenId }
+      : { name: dep.type, id: dep.typeId };
+  }
+
+  providesToken(provider: ProviderInfo, ref: TokenRef): boolean {
+    if (provider.tokenId && ref.id) return provider.tokenId === ref.id;
+    return provider.token === ref.name;
+  }
+
+  /**
+   * Finds the provider for a token, preferring the consumer's own module.
+   */
+  findProvider(ref: TokenRef, preferredModuleId?: string): { provider: ProviderInfo; module: ModuleInfo } | undefined {
+    let match: { provider: ProviderInfo; module: ModuleInfo } | undefined;
+
+    for (const module of this.modules) {
+      const provider = module.providers.find(p => this.providesToken(p, ref));
+      if (!provider) continue;
+      if (module.id === preferredModuleId) return { provider, module };
+      match = match ?? { provider, module };
+    }
+
+    return match;
+  }
+
+  resolve(classInfo: ClassInfo, dep: DependencyInfo): ResolvedDependency {
+    const token = this.getToken(dep);
+    const ref = this.getTokenRef(dep);
+    const found = this.findProvider(ref, classInfo.moduleId);
+
+    if (!found) {
+      // Unregistered classes can still be referenced directly
+      return { token, target: this.findClassByRef(ref), injects: [] };
+    }
+
+    const { provider, module } = found;
+    return {
+      token,
+      provider,
+      providerModule: module,
+      target: this.resolveProviderClass(provider, module.id, new Set([ref.id ?? ref.name])),
+      injects: (provider.inject ?? [])
+        .map(injected => this.resolveToken({ name: injected }, module.id))
+        .filter((injected): injected is ClassInfo => injected !== undefined),
+    };
+  }
+
+  /**
+   * A dependency is drawn through its token when the token is not simply
+   * the class that implements it (custom providers and `@Inject(TOKEN)`).
+   */
+  isTokenInjection(dep: DependencyInfo, resolved: ResolvedDependency): boolean {
+    if (resolved.provider) {
+      return resolved.provider.kind !== 'class';
+    }
+    return dep.token !== undefined && !this.findClassByRef({ name: dep.token, id: dep.tokenId });
+  }
+
+  /**
+   * The class that ends up fulfilling a provider, following useExisting aliases.
+   */
+  getProviderClass(provider: ProviderInfo, moduleId: string): ClassInfo | undefined {
+    return this.resolveProviderClass(provider, moduleId, new Set([provider.tokenId ?? provider.token]));
+  }
+
+  /**
+   * Tokens a module exports, including everything re-exported from the
+   * modules it imports. Class tokens are keyed by class ID.
+   */
+  getExportedTokens(module: ModuleInfo, visited = new Set<string>()): Set<string> {
+    const tokens = new Set<string>();
+    if (visited.has(module.id)) return tokens;
+    visited.add(module.id);
+
+    for (const exported of module.exports) {
+      // Exporting an imported module re-exports everything it exports
+      const reExported = this.resolveImport(module, exported);
+      if (reExported) {
+        for (const token of this.getExportedTokens(reExported, visited)) {
+          tokens.add(token);
+        }
+        continue;
+      }
+
+      // Exports name providers, so they share the provider's key
+      const provider = module.providers.find(p => p.token === exported);
+      tokens.add(provider ? this.getProviderKey(provider) : exported);
+    }
+
+    return tokens;
+  }
+
+  getProviderKey(provider: ProviderInfo): string {
+    return provider.tokenId ?? provider.token;
+  }
+
+  // Whether a set of provider keys holds the token
+  hasToken(tokens: Set<string>, ref: TokenRef): boolean {
+    return tokens.has(ref.id ?? ref.name) || tokens.has(ref.name);
+  }
+
+  private resolveToken(ref: TokenRef, moduleId: string): ClassInfo | undefined {
+    const found = this.findProvider(ref, moduleId);
+    return found
+      ? this.resolveProviderClass(found.provider, found.module.id, new Set([ref.id ?? ref.name]))
+      : this.findClassByRef(ref);
+  }
+
+  private resolveProviderClass(provider: ProviderInfo, moduleId: string, visited: Set<string>): ClassInfo | undefined {
+    if (provider.useClass) {
+      return this.findClassByRef({ name: provider.useClass, id: provider.useClassId });
+    }
+
+    // Follow aliases (useExisting) to the provider they point at
+    const existing: TokenRef | undefined = provider.useExisting
+      ? { name: provider.useExisting, id: provider.useExistingId }
+      : undefined;
+    if (existing && !visited.has(existing.id ?? existing.name)) {
+      visited.add(existing.id ?? existing.name);
+      const aliased = this.findProvider(existing, moduleId);
+      return aliased
+        ? this.resolveProviderClass(aliased.provider, aliased.module.id, visited)
+        : this.findClassByRef(existing);
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,98 @@
+import { ClassInfo, DependencyIssue, ModuleInfo } from '../types';
+import { DependencyGraph, TokenRef } from './dependency-graph';
+
+// Injectables that Nest makes available in every module
+const BUILT_IN_TOKENS = new Set([
+  'ModuleRef',
+  'Reflector',
+  'HttpAdapterHost',
+  'ApplicationConfig',
+  'LazyModuleLoader',
+  'REQUEST',
+  'INQUIRER',
+]);
+
+/**
+ * Statically reproduces Nest's "can't resolve dependencies" check: every
+ * constructor dependency must be provided by the class's own module, exported
+ * by a module it imports, or exported by a global module.
+ */
+export class DependencyValidator {
+  private graph: DependencyGraph;
+
+  constructor(private modules: ModuleInfo[], private classes: ClassInfo[]) {
+    this.graph = new DependencyGraph(modules, classes);
+  }
+
+  validate(): DependencyIssue[] {
+    const issues: DependencyIssue[] = [];
+    const globalTokens = new Set(
+      this.modules.filter(m => m.isGlobal).flatMap(m => [...this.graph.getExportedTokens(m)])
+    );
+
+    for (const classInfo of this.classes) {
+      // Classes not registered in any module are never instantiated by Nest
+      if (!classInfo.moduleId) continue;
+
+      const module = this.modules.find(m => m.id === classInfo.moduleId);
+      if (!module) continue;
+
+      const availableTokens = this.getAvailableTokens(module);
+
+      for (const dep of classInfo.dependencies) {
+        if (dep.isOptional) continue;
+
+        const token = this.graph.getToken(dep);
+        const ref = this.graph.getTokenRef(dep);
+        if (BUILT_IN_TOKENS.has(token) || this.graph.hasToken(availableTokens, ref) || this.graph.hasToken(globalTokens, ref)) continue;
+
+        // Tokens the project knows nothing about come from external packages
+        const provided = this.graph.findProvider(ref);
+        if (!provided && !this.graph.findClassByRef(ref)) continue;
+
+        issues.push({
+          className: classInfo.name,
+          filePath: classInfo.filePath,
+          line: dep.line,
+          moduleName: module.name,
+          dependency: dep,
+          token,
+          message: this.describeIssue(classInfo, module, ref, provided?.module),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Tokens a module can inject: its own providers plus everything exported
+   * by the modules it imports. Class tokens are keyed by class ID.
+   */
+  private getAvailableTokens(module: ModuleInfo): Set<string> {
+    const tokens = new Set(module.providers.map(p => this.graph.getProviderKey(p)));
+
+    for (const importedName of module.imports) {
+      const imported = this.graph.resolveImport(module, importedName);
+      if (!imported) continue;
+      for (const token of this.graph.getExportedTokens(imported)) {
+        tokens.add(token);
+      }
+    }
+
+    return tokens;
+  }
+
+  private describeIssue(classInfo: ClassInfo, module: ModuleInfo, ref: TokenRef, providerModule?: ModuleInfo): string {
+    const token = ref.name;
+    const base = `Nest can't resolve dependency "${token}" of ${classInfo.name} in ${module.name}`;
+
+    if (!providerModule) {
+      return `${base}: "${token}" is not provided by any module`;
+    }
+    if (!this.graph.hasToken(this.graph.getExportedTokens(providerModule), ref)) {
+      return `${base}: it is provided by ${providerModule.name} but not exported`;
+    }
+    return `${base}: import ${providerModule.name}, which exports it`;
+  }
+}
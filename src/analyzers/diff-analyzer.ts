@@ -0,0 +1,224 @@
+import { ClassInfo, ModuleInfo, ProviderInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+import { toRelativeId, toRelativePath } from './symbol-ids';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ArchitectureSnapshot {
+  rootPath: string; // Project root the file paths are relative to
+  modules: ModuleInfo[];
+  classes: ClassInfo[];
+}
+
+export interface DiffNode {
+  id: string; // "<path relative to the project root>#<name>", the same in both revisions
+  name: string;
+  filePath: string; // Relative to the project root
+  status: ChangeStatus;
+  changes: string[]; // What changed, e.g. "imports AuthModule"
+}
+
+export interface ProviderDiffNode extends DiffNode {
+  moduleId: string;
+}
+
+export interface DiffEdge {
+  from: string; // Module IDs for imports, provider IDs for dependencies
+  to: string;
+  kind: 'import' | 'dependency';
+  status: Exclude<ChangeStatus, 'changed'>;
+}
+
+export interface ArchitectureDiff {
+  modules: DiffNode[];
+  providers: ProviderDiffNode[]; // Providers and controllers
+  edges: DiffEdge[];
+}
+
+interface ModuleSnapshot {
+  node: Omit<DiffNode, 'status' | 'changes'>;
+  imports: Map<string, string>; // By module ID or name, to the name
+  exports: Set<string>;
+  isGlobal: boolean;
+}
+
+interface ProviderSnapshot {
+  node: Omit<ProviderDiffNode, 'status' | 'changes'>;
+  definition: string; // e.g. "useClass TypeOrmUserRepository"
+}
+
+/**
+ * Compares the modules, providers, module imports and injected
+ * dependencies of two revisions of a project.
+ */
+export class DiffAnalyzer {
+  constructor(private base: ArchitectureSnapshot, private head: ArchitectureSnapshot) {}
+
+  analyze(): ArchitectureDiff {
+    const baseModules = this.getModules(this.base);
+    const headModules = this.getModules(this.head);
+    const baseProviders = this.getProviders(this.base);
+    const headProviders = this.getProviders(this.head);
+    const baseEdges = this.getEdges(this.base);
+    const headEdges = this.getEdges(this.head);
+
+    const edges: DiffEdge[] = [];
+    for (const [key, edge] of headEdges) {
+      edges.push({ ...edge, status: baseEdges.has(key) ? 'unchanged' : 'added' });
+    }
+    for (const [key, edge] of baseEdges) {
+      if (!headEdges.has(key)) edges.push({ ...edge, status: 'removed' });
+    }
+
+    const providerName = (id: string) => (headProviders.get(id) ?? baseProviders.get(id))?.node.name ?? id;
+    const providers = this.compare(baseProviders, headProviders, (before, after) => [
+      ...(before.definition !== after.definition ? [`was ${before.definition}, now ${after.definition}`] : []),
+      ...edges
+        .filter(edge => edge.kind === 'dependency' && edge.from === after.node.id && edge.status !== 'unchanged')
+        .map(edge => `${edge.status === 'added' ? 'injects' : 'no longer injects'} ${providerName(edge.to)}`),
+    ]);
+
+    const modules = this.compare(baseModules, headModules, (before, after) => {
+      const moduleProviders = providers.filter(p => p.moduleId === after.node.id && (p.status === 'added' || p.status === 'removed'));
+      return [
+        ...this.describeSetChanges(before.imports, after.imports, 'imports'),
+        ...this.describeSetChanges(this.toMap(before.exports), this.toMap(after.exports), 'exports'),
+        ...moduleProviders.map(p => `${p.status === 'added' ? 'provides' : 'no longer provides'} ${p.name}`),
+        ...(before.isGlobal !== after.isGlobal ? [after.isGlobal ? 'is now global' : 'is no longer global'] : []),
+      ];
+    });
+
+    return { modules, providers, edges };
+  }
+
+  /**
+   * Matches items by ID: only in head is added, only in base is removed,
+   * in both is changed when describe() finds differences.
+   */
+  private compare<T extends ModuleSnapshot | ProviderSnapshot>(
+    base: Map<string, T>,
+    head: Map<string, T>,
+    describe: (before: T, after: T) => string[]
+  ): (T['node'] & { status: ChangeStatus; changes: string[] })[] {
+    const nodes: (T['node'] & { status: ChangeStatus; changes: string[] })[] = [];
+
+    for (const [id, after] of head) {
+      const before = base.get(id);
+      const changes = before ? describe(before, after) : [];
+      nodes.push({ ...after.node, status: !before ? 'added' : changes.length > 0 ? 'changed' : 'unchanged', changes });
+    }
+    for (const [id, before] of base) {
+      if (!head.has(id)) nodes.push({ ...before.node, status: 'removed', changes: [] });
+    }
+
+    return nodes;
+  }
+
+  private describeSetChanges(before: Map<string, string>, after: Map<string, string>, verb: string): string[] {
+    return [
+      ...[...after].filter(([key]) => !before.has(key)).map(([, name]) => `${verb} ${name}`),
+      ...[...before].filter(([key]) => !after.has(key)).map(([, name]) => `no longer ${verb} ${name}`),
+    ];
+  }
+
+  private getModules(snapshot: ArchitectureSnapshot): Map<string, ModuleSnapshot> {
+    const modules = new Map<string, ModuleSnapshot>();
+
+    for (const module of snapshot.modules) {
+      const id = toRelativeId(snapshot.rootPath, module.id);
+      modules.set(id, {
+        node: { id, name: module.name, filePath: toRelativePath(snapshot.rootPath, module.filePath) },
+        imports: new Map(module.importDetails.map(imported => [
+          imported.id ? toRelativeId(snapshot.rootPath, imported.id) : imported.name,
+          imported.name,
+        ])),
+        exports: new Set(module.exports),
+        isGlobal: module.isGlobal,
+      });
+    }
+
+    return modules;
+  }
+
+  private getProviders(snapshot: ArchitectureSnapshot): Map<string, ProviderSnapshot> {
+    const providers = new Map<string, ProviderSnapshot>();
+
+    for (const module of snapshot.modules) {
+      const moduleId = toRelativeId(snapshot.rootPath, module.id);
+      const filePath = toRelativePath(snapshot.rootPath, module.filePath);
+
+      for (const provider of module.providers) {
+        const id = this.getProviderId(snapshot, moduleId, provider);
+        providers.set(id, { node: { id, name: provider.token, filePath, moduleId }, definition: this.describeProvider(provider) });
+      }
+      for (const classId of module.classIds) {
+        const controller = snapshot.classes.find(c => c.id === classId && c.classType === 'controller');
+        if (!controller) continue;
+        const id = `${moduleId}/${toRelativeId(snapshot.rootPath, controller.id)}`;
+        providers.set(id, { node: { id, name: controller.name, filePath, moduleId }, definition: 'controller' });
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Module imports, and the providers each provider or controller injects.
+   */
+  private getEdges(snapshot: ArchitectureSnapshot): Map<string, Omit<DiffEdge, 'status'>> {
+    const edges = new Map<string, Omit<DiffEdge, 'status'>>();
+    const graph = new DependencyGraph(snapshot.modules, snapshot.classes);
+    const add = (edge: Omit<DiffEdge, 'status'>) => edges.set(`${edge.kind}:${edge.from}->${edge.to}`, edge);
+
+    for (const module of snapshot.modules) {
+      for (const imported of module.importDetails) {
+        if (!imported.id) continue;
+        add({ from: toRelativeId(snapshot.rootPath, module.id), to: toRelativeId(snapshot.rootPath, imported.id), kind: 'import' });
+      }
+    }
+
+    for (const classInfo of snapshot.classes) {
+      const from = this.getClassProviderId(snapshot, classInfo);
+      if (!from) continue;
+
+      for (const dep of classInfo.dependencies) {
+        const resolved = graph.resolve(classInfo, dep);
+        if (!resolved.provider || !resolved.providerModule) continue;
+        const to = this.getProviderId(snapshot, toRelativeId(snapshot.rootPath, resolved.providerModule.id), resolved.provider);
+        add({ from, to, kind: 'dependency' });
+      }
+    }
+
+    return edges;
+  }
+
+  // The provider (or controller) a class is registered as in its module
+  private getClassProviderId(snapshot: ArchitectureSnapshot, classInfo: ClassInfo): string | undefined {
+    const module = snapshot.modules.find(m => m.id === classInfo.moduleId);
+    if (!module) return undefined;
+
+    const moduleId = toRelativeId(snapshot.rootPath, module.id);
+    if (classInfo.classType === 'controller') {
+      return `${moduleId}/${toRelativeId(snapshot.rootPath, classInfo.id)}`;
+    }
+    const provider = module.providers.find(p => p.useClassId === classInfo.id || (!p.useClassId && p.useClass === classInfo.name));
+    return provider ? this.getProviderId(snapshot, moduleId, provider) : undefined;
+  }
+
+  private getProviderId(snapshot: ArchitectureSnapshot, moduleId: string, provider: ProviderInfo): string {
+    return `${moduleId}/${provider.tokenId ? toRelativeId(snapshot.rootPath, provider.tokenId) : provider.token}`;
+  }
+
+  private describeProvider(provider: ProviderInfo): string {
+    switch (provider.kind) {
+      case 'useClass': return `useClass ${provider.useClass}`;
+      case 'useExisting': return `useExisting ${provider.useExisting}`;
+      case 'useFactory': return `useFactory${provider.factory ? ` ${provider.factory}` : ''}${provider.inject?.length ? ` (inject ${provider.inject.join(', ')})` : ''}`;
+      default: return provider.kind;
+    }
+  }
+
+  private toMap(names: Set<string>): Map<string, string> {
+    return new Map([...names].map(name => [name, name]));
+  }
+}
@@ -0,0 +1,196 @@
+import { Project, ClassDeclaration, Decorator, Node, PropertyDeclaration } from 'ts-morph';
+import { ClassInfo, DtoBaseInfo, DtoInfo, DtoPropertyInfo, SourceFilter, TypeRefInfo } from '../types';
+import { getInitializer, getStringLiteral } from './object-literals';
+import { addSourceFiles, DEFAULT_SOURCE_FILTER, SourceProject } from './source-files';
+import { getClassId, resolveClassId } from './symbol-ids';
+
+// From @nestjs/mapped-types, @nestjs/swagger and @nestjs/graphql alike
+const MAPPED_TYPES = ['PartialType', 'PickType', 'OmitType', 'IntersectionType'];
+
+// Property decorators that document or transform a value instead of validating it
+const NON_VALIDATOR_DECORATORS = [
+  'ApiProperty', 'ApiPropertyOptional', 'ApiHideProperty', 'ApiResponseProperty',
+  'Type', 'Transform', 'Expose', 'Exclude', 'Field',
+];
+
+/**
+ * Collects the DTOs controllers take and return, following nested DTOs and
+ * the classes they extend or map (PartialType, PickType, ...).
+ */
+export class DtoAnalyzer {
+  private project: Project;
+
+  constructor(projectPath: string, sources: SourceFilter = DEFAULT_SOURCE_FILTER, shared?: SourceProject) {
+    if (shared) {
+      this.project = shared.project;
+      return;
+    }
+    this.project = new Project({
+      tsConfigFilePath: `${projectPath}/tsconfig.json`,
+      skipAddingFilesFromTsConfig: true,
+    });
+    addSourceFiles(this.project, projectPath, sources);
+  }
+
+  analyze(classes: ClassInfo[]): DtoInfo[] {
+    const dtos = new Map<string, DtoInfo>();
+
+    // Adds a DTO and everything it nests or extends to the module
+    const visit = (typeId: string, moduleId: string | undefined): DtoInfo | undefined => {
+      let dto = dtos.get(typeId);
+      if (!dto) {
+        const declaration = this.findClass(typeId);
+        if (!declaration) return undefined;
+        dto = this.analyzeDto(declaration);
+        dtos.set(typeId, dto);
+      } else if (!moduleId || dto.moduleIds.includes(moduleId)) {
+        return dto;
+      }
+
+      if (moduleId) dto.moduleIds.push(moduleId);
+      for (const ref of [...dto.bases, ...dto.properties.map(p => p.nested)]) {
+        if (ref?.typeId) visit(ref.typeId, moduleId);
+      }
+      return dto;
+    };
+
+    for (const classInfo of classes) {
+      if (!classInfo.controller) continue;
+
+      for (const method of classInfo.methods) {
+        const refs = [
+          ...(method.routeParameters || []),
+          ...(method.responseType ? [{ ...method.responseType, source: 'response' as const }] : []),
+        ];
+        for (const ref of refs) {
+          const dto = ref.typeId ? visit(ref.typeId, classInfo.moduleId) : undefined;
+          dto?.usages.push({ controllerId: classInfo.id, handler: method.name, source: ref.source });
+        }
+      }
+    }
+
+    return [...dtos.values()];
+  }
+
+  private analyzeDto(declaration: ClassDeclaration): DtoInfo {
+    const extendsExpression = declaration.getExtends()?.getExpression();
+
+    return {
+      id: getClassId(declaration),
+      name: declaration.getName()!,
+      filePath: declaration.getSourceFile().getFilePath(),
+      moduleIds: [],
+      usages: [],
+      bases: extendsExpression ? this.getBases(extendsExpression, []) : [],
+      properties: declaration.getProperties()
+        .filter(property => !property.isStatic())
+        .map(property => this.analyzeProperty(property)),
+    };
+  }
+
+  private analyzeProperty(property: PropertyDeclaration): DtoPropertyInfo {
+    const decorators = property.getDecorators();
+    const apiProperty = property.getDecorator('ApiProperty') ?? property.getDecorator('ApiPropertyOptional');
+    const apiOptions = apiProperty?.getArguments().find(Node.isObjectLiteralExpression);
+    const required = getInitializer(apiOptions, 'required')?.getText();
+
+    // T[] and Array<T>
+    let typeNode: Node | undefined = property.getTypeNode();
+    let isList = false;
+    if (typeNode && Node.isArrayTypeNode(typeNode)) {
+      isList = true;
+      typeNode = typeNode.getElementTypeNode();
+    } else if (typeNode && Node.isTypeReference(typeNode) && typeNode.getTypeName().getText() === 'Array') {
+      isList = true;
+      typeNode = typeNode.getTypeArguments()[0];
+    }
+
+    const example = getInitializer(apiOptions, 'example');
+    return {
+      name: property.getName(),
+      type: property.getTypeNode()?.getText() ?? property.getType().getText(property),
+      isOptional: property.hasQuestionToken()
+        || property.getDecorator('IsOptional') !== undefined
+        || property.getDecorator('ApiPropertyOptional') !== undefined
+        || required === 'false',
+      isList,
+      validators: decorators
+        .filter(decorator => !NON_VALIDATOR_DECORATORS.includes(decorator.getName()))
+        .map(decorator => this.formatValidator(decorator)),
+      nested: this.getNestedType(property, apiOptions, typeNode, isList),
+      description: getStringLiteral(getInitializer(apiOptions, 'description')),
+      example: example ? getStringLiteral(example) ?? example.getText() : undefined,
+    };
+  }
+
+  /**
+   * DTO class held by a property: @Type(() => AddressDto) wins, then
+   * @ApiProperty({ type: AddressDto }), then the type annotation.
+   */
+  private getNestedType(property: PropertyDeclaration, apiOptions: Node | undefined, typeNode: Node | undefined, isList: boolean): TypeRefInfo | undefined {
+    const [typeFunction] = property.getDecorator('Type')?.getArguments() ?? [];
+    let apiType = getInitializer(apiOptions, 'type');
+    if (apiType && Node.isArrowFunction(apiType)) {
+      apiType = apiType.getBody();
+    }
+    const apiIsList = apiType !== undefined && Node.isArrayLiteralExpression(apiType);
+    if (apiType && Node.isArrayLiteralExpression(apiType)) {
+      apiType = apiType.getElements()[0];
+    }
+
+    const candidates: [Node | undefined, boolean][] = [
+      [typeFunction && Node.isArrowFunction(typeFunction) ? typeFunction.getBody() : undefined, isList],
+      [apiType, apiIsList || isList],
+      [typeNode, isList],
+    ];
+    for (const [node, nodeIsList] of candidates) {
+      const typeId = resolveClassId(node);
+      if (node && typeId && this.findClass(typeId)) {
+        return { type: this.findClass(typeId)!.getName()!, typeId, isList: nodeIsList };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Base classes behind an extends clause, unwrapping mapped types:
+   * PartialType(PickType(CreateUserDto, ['email'])) is CreateUserDto
+   * through ['PartialType', 'PickType'] with keys ['email'].
+   */
+  private getBases(node: Node, mappedTypes: string[], keys?: string[]): DtoBaseInfo[] {
+    if (Node.isCallExpression(node)) {
+      const name = node.getExpression().getText();
+      if (!MAPPED_TYPES.includes(name)) return [];
+
+      const [target, keysArgument] = node.getArguments();
+      if (name === 'IntersectionType') {
+        return node.getArguments().flatMap(argument => this.getBases(argument, [...mappedTypes, name], keys));
+      }
+      return target ? this.getBases(target, [...mappedTypes, name], keys ?? this.getKeys(keysArgument)) : [];
+    }
+
+    return [{ type: node.getText(), typeId: resolveClassId(node), mappedTypes, keys }];
+  }
+
+  // ['email', 'name'] or ['email', 'name'] as const
+  private getKeys(node: Node | undefined): string[] | undefined {
+    const list = node && Node.isAsExpression(node) ? node.getExpression() : node;
+    if (!list || !Node.isArrayLiteralExpression(list)) return undefined;
+    return list.getElements().map(element => getStringLiteral(element) ?? element.getText());
+  }
+
+  // MinLength(8, { message: '...' }) -> MinLength(8); messages are noise in a diagram
+  private formatValidator(decorator: Decorator): string {
+    const args = decorator.getArguments().flatMap(arg => {
+      if (!Node.isObjectLiteralExpression(arg)) return [arg.getText()];
+      const options = arg.getProperties().filter(p => !(Node.isPropertyAssignment(p) && p.getName() === 'message'));
+      return options.length > 0 ? [`{ ${options.map(p => p.getText()).join(', ')} }`] : [];
+    });
+    return `${decorator.getName()}(${args.join(', ')})`.replace(/\s+/g, ' ');
+  }
+
+  private findClass(classId: string): ClassDeclaration | undefined {
+    const separator = classId.lastIndexOf('#');
+    return this.project.getSourceFile(classId.slice(0, separator))?.getClass(classId.slice(separator + 1));
+  }
+}
@@ -0,0 +1,293 @@
+import { readFileSync } from 'fs';
+import { Project, ClassDeclaration, Decorator, Node, PropertyDeclaration } from 'ts-morph';
+import { EntityColumnInfo, EntityInfo, EntityRelationInfo, SourceFilter } from '../types';
+import { getInitializer, getStringLiteral } from './object-literals';
+import { addSourceFiles, DEFAULT_SOURCE_FILTER, SourceProject } from './source-files';
+import { getClassId, resolveClassId } from './symbol-ids';
+
+const TYPEORM_COLUMN_DECORATORS = [
+  'Column', 'PrimaryColumn', 'PrimaryGeneratedColumn', 'ObjectIdColumn',
+  'CreateDateColumn', 'UpdateDateColumn', 'DeleteDateColumn', 'VersionColumn',
+];
+
+const TYPEORM_RELATION_DECORATORS: Record<string, EntityRelationInfo['kind']> = {
+  OneToOne: 'one-to-one',
+  OneToMany: 'one-to-many',
+  ManyToOne: 'many-to-one',
+  ManyToMany: 'many-to-many',
+};
+
+/**
+ * Reads persistence models: TypeORM @Entity classes, Mongoose @Schema
+ * classes and the models in schema.prisma files.
+ */
+export class EntityAnalyzer {
+  private project: Project;
+
+  constructor(private projectPath: string, sources: SourceFilter = DEFAULT_SOURCE_FILTER, shared?: SourceProject) {
+    if (shared) {
+      this.project = shared.project;
+      return;
+    }
+    this.project = new Project({
+      tsConfigFilePath: `${projectPath}/tsconfig.json`,
+      skipAddingFilesFromTsConfig: true,
+    });
+    addSourceFiles(this.project, projectPath, sources);
+  }
+
+  analyze(): EntityInfo[] {
+    const entities: EntityInfo[] = [];
+
+    for (const sourceFile of this.project.getSourceFiles()) {
+      for (const classDeclaration of sourceFile.getClasses()) {
+        const entity = this.analyzeTypeOrmEntity(classDeclaration) ?? this.analyzeMongooseSchema(classDeclaration);
+        if (entity) entities.push(entity);
+      }
+    }
+
+    for (const schemaPath of this.findPrismaSchemas()) {
+      entities.push(...this.analyzePrismaSchema(schemaPath));
+    }
+
+    return entities;
+  }
+
+  private analyzeTypeOrmEntity(classDeclaration: ClassDeclaration): EntityInfo | undefined {
+    const decorator = classDeclaration.getDecorator('Entity');
+    if (!decorator) return undefined;
+
+    const columns: EntityColumnInfo[] = [];
+    const relations: EntityRelationInfo[] = [];
+
+    for (const property of classDeclaration.getProperties()) {
+      const columnDecorator = property.getDecorators().find(d => TYPEORM_COLUMN_DECORATORS.includes(d.getName()));
+      if (columnDecorator) {
+        const [first] = columnDecorator.getArguments();
+        const options = this.getOptions(columnDecorator);
+        columns.push({
+          name: this.getString(options, 'name') ?? property.getName(),
+          // @Column('varchar') or @Column({ type: 'varchar' }), else the TypeScript type
+          type: getStringLiteral(first) ?? this.getString(options, 'type') ?? this.getPropertyType(property),
+          isPrimary: columnDecorator.getName().startsWith('Primary') || columnDecorator.getName() === 'ObjectIdColumn'
+            || this.getFlag(options, 'primary'),
+          isForeignKey: false,
+          isNullable: this.getFlag(options, 'nullable'),
+          isUnique: this.getFlag(options, 'unique'),
+        });
+        continue;
+      }
+
+      const relationDecorator = property.getDecorators().find(d => TYPEORM_RELATION_DECORATORS[d.getName()]);
+      if (!relationDecorator) continue;
+
+      const kind = TYPEORM_RELATION_DECORATORS[relationDecorator.getName()];
+      const [targetArgument] = relationDecorator.getArguments();
+      const targetNode = targetArgument && Node.isArrowFunction(targetArgument) ? targetArgument.getBody() : targetArgument;
+      const joinColumn = property.getDecorator('JoinColumn');
+
+      // Many-to-one always owns the foreign key; one-to-one only with @JoinColumn
+      const joinColumns = kind === 'many-to-one' || (kind === 'one-to-one' && joinColumn)
+        ? [this.getString(this.getOptions(joinColumn), 'name') ?? `${property.getName()}Id`]
+        : [];
+
+      relations.push({
+        kind,
+        property: property.getName(),
+        target: getStringLiteral(targetNode) ?? targetNode?.getText() ?? 'Unknown',
+        targetId: resolveClassId(targetNode),
+        joinColumns,
+      });
+      this.addForeignKeys(columns, joinColumns, this.getFlag(this.getOptions(relationDecorator), 'nullable'));
+    }
+
+    const [nameArgument] = decorator.getArguments();
+    return {
+      id: getClassId(classDeclaration),
+      name: classDeclaration.getName()!,
+      tableName: getStringLiteral(nameArgument) ?? this.getString(this.getOptions(decorator), 'name'),
+      source: 'typeorm',
+      filePath: classDeclaration.getSourceFile().getFilePath(),
+      columns,
+      relations,
+    };
+  }
+
+  private analyzeMongooseSchema(classDeclaration: ClassDeclaration): EntityInfo | undefined {
+    const decorator = classDeclaration.getDecorator('Schema');
+    if (!decorator) return undefined;
+
+    // Every document gets an ObjectId primary key
+    const columns: EntityColumnInfo[] = [
+      { name: '_id', type: 'ObjectId', isPrimary: true, isForeignKey: false, isNullable: false, isUnique: true },
+    ];
+    const relations: EntityRelationInfo[] = [];
+
+    for (const property of classDeclaration.getProperties()) {
+      const prop = property.getDecorator('Prop');
+      if (!prop) continue;
+
+      const options = this.getOptions(prop);
+      let typeNode = options && Node.isObjectLiteralExpression(options) ? getInitializer(options, 'type') : undefined;
+      // { type: [{ type: ObjectId, ref: 'Owner' }] } is an array of references
+      const isArray = typeNode !== undefined && Node.isArrayLiteralExpression(typeNode);
+      if (typeNode && Node.isArrayLiteralExpression(typeNode)) {
+        typeNode = typeNode.getElements()[0];
+      }
+      const refNode = getInitializer(options, 'ref')
+        ?? (typeNode && Node.isObjectLiteralExpression(typeNode) ? getInitializer(typeNode, 'ref') : undefined);
+
+      const isNullable = !this.getFlag(options, 'required');
+      if (refNode) {
+        // ref: 'Owner' or ref: Owner.name
+        const targetNode = Node.isPropertyAccessExpression(refNode) && refNode.getName() === 'name' ? refNode.getExpression() : refNode;
+        relations.push({
+          kind: isArray ? 'many-to-many' : 'many-to-one',
+          property: property.getName(),
+          target: getStringLiteral(targetNode) ?? targetNode.getText(),
+          targetId: resolveClassId(targetNode),
+          joinColumns: [property.getName()],
+        });
+        columns.push({
+          name: property.getName(),
+          type: isArray ? 'ObjectId[]' : 'ObjectId',
+          isPrimary: false,
+          isForeignKey: true,
+          isNullable,
+          isUnique: false,
+        });
+        continue;
+      }
+
+      columns.push({
+        name: property.getName(),
+        type: this.getPropertyType(property),
+        isPrimary: false,
+        isForeignKey: false,
+        isNullable,
+        isUnique: this.getFlag(options, 'unique'),
+      });
+    }
+
+    return {
+      id: getClassId(classDeclaration),
+      name: classDeclaration.getName()!,
+      tableName: this.getString(this.getOptions(decorator), 'collection'),
+      source: 'mongoose',
+      filePath: classDeclaration.getSourceFile().getFilePath(),
+      columns,
+      relations,
+    };
+  }
+
+  private findPrismaSchemas(): string[] {
+    return this.project.getFileSystem().globSync([
+      `${this.projectPath}/**/*.prisma`,
+      `!${this.projectPath}/node_modules/**`,
+    ]);
+  }
+
+  private analyzePrismaSchema(schemaPath: string): EntityInfo[] {
+    const content = readFileSync(schemaPath, 'utf-8');
+    const models = [...content.matchAll(/^\s*model\s+(\w+)\s*\{([^}]*)\}/gm)].map(match => ({
+      name: match[1],
+      body: match[2].split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(line => line.length > 0),
+    }));
+    const modelNames = new Set(models.map(model => model.name));
+
+    // Field lists per model, to tell one-to-one from one-to-many and many-to-many
+    const fieldsOf = (modelName: string) => models.find(m => m.name === modelName)?.body ?? [];
+    const backReference = (from: string, to: string) => fieldsOf(to)
+      .map(line => line.split(/\s+/))
+      .find(([, type]) => type?.replace(/[?[\]]/g, '') === from);
+
+    return models.map(model => {
+      const columns: EntityColumnInfo[] = [];
+      const relations: EntityRelationInfo[] = [];
+      const tableName = model.body.map(line => line.match(/^@@map\("([^"]+)"\)/)?.[1]).find(Boolean);
+      const compositeId = model.body.map(line => line.match(/^@@id\(\[([^\]]+)\]/)?.[1]).find(Boolean);
+      const primaryKeys = new Set(compositeId ? compositeId.split(',').map(field => field.trim()) : []);
+
+      for (const line of model.body) {
+        if (line.startsWith('@@')) continue;
+
+        const [fieldName, rawType = '', ...attributes] = line.split(/\s+/);
+        const attributeText = attributes.join(' ');
+        const type = rawType.replace(/[?[\]]/g, '');
+        const isList = rawType.endsWith('[]');
+        const isNullable = rawType.endsWith('?');
+
+        if (modelNames.has(type)) {
+          const joinColumns = attributeText.match(/fields:\s*\[([^\]]*)\]/)?.[1].split(',').map(f => f.trim()) ?? [];
+          const back = backReference(model.name, type);
+          const backIsList = back?.[1]?.endsWith('[]') ?? false;
+          relations.push({
+            kind: isList
+              ? (backIsList ? 'many-to-many' : 'one-to-many')
+              : (back && !backIsList ? 'one-to-one' : 'many-to-one'),
+            property: fieldName,
+            target: type,
+            targetId: `${schemaPath}#${type}`,
+            joinColumns,
+          });
+          continue;
+        }
+
+        columns.push({
+          name: fieldName,
+          type: rawType,
+          isPrimary: attributeText.includes('@id') || primaryKeys.has(fieldName),
+          isForeignKey: false,
+          isNullable,
+          isUnique: attributeText.includes('@unique'),
+        });
+      }
+
+      for (const relation of relations) {
+        this.addForeignKeys(columns, relation.joinColumns, false);
+      }
+
+      return {
+        id: `${schemaPath}#${model.name}`,
+        name: model.name,
+        tableName,
+        source: 'prisma' as const,
+        filePath: schemaPath,
+        columns,
+        relations,
+      };
+    });
+  }
+
+  /**
+   * Marks declared foreign key columns, and adds the ones TypeORM creates
+   * implicitly (e.g. authorId for an `author` relation).
+   */
+  private addForeignKeys(columns: EntityColumnInfo[], joinColumns: string[], isNullable: boolean): void {
+    for (const joinColumn of joinColumns) {
+      const existing = columns.find(c => c.name === joinColumn);
+      if (existing) {
+        existing.isForeignKey = true;
+      } else {
+        columns.push({ name: joinColumn, type: 'fk', isPrimary: false, isForeignKey: true, isNullable, isUnique: false });
+      }
+    }
+  }
+
+  private getPropertyType(property: PropertyDeclaration): string {
+    return property.getTypeNode()?.getText() ?? property.getType().getText(property);
+  }
+
+  // Options object: the last object literal argument of the decorator
+  private getOptions(decorator: Decorator | undefined): Node | undefined {
+    return decorator?.getArguments().filter(Node.isObjectLiteralExpression).pop();
+  }
+
+  private getString(node: Node | undefined, propertyName: string): string | undefined {
+    return getStringLiteral(getInitializer(node, propertyName));
+  }
+
+  private getFlag(node: Node | undefined, propertyName: string): boolean {
+    return getInitializer(node, propertyName)?.getText() === 'true';
+  }
+}
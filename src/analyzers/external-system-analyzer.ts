@@ -0,0 +1,224 @@
+import { Project, Node, SyntaxKind, CallExpression } from 'ts-morph';
+import { ExternalSystemInfo, ExternalSystemUsage, ModuleInfo, SourceFilter } from '../types';
+import { getInitializer, getStringLiteral } from './object-literals';
+import { addSourceFiles, DEFAULT_SOURCE_FILTER, SourceProject } from './source-files';
+import { getClassId } from './symbol-ids';
+
+// TypeORM `type` values, as shown in the diagrams
+const DATABASE_TECHNOLOGIES: Record<string, string> = {
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  sqlite: 'SQLite',
+  'better-sqlite3': 'SQLite',
+  mssql: 'SQL Server',
+  oracle: 'Oracle',
+  mongodb: 'MongoDB',
+  cockroachdb: 'CockroachDB',
+};
+
+// Transport enum members from @nestjs/microservices
+const TRANSPORT_TECHNOLOGIES: Record<string, string> = {
+  TCP: 'TCP',
+  REDIS: 'Redis',
+  NATS: 'NATS',
+  MQTT: 'MQTT',
+  GRPC: 'gRPC',
+  RMQ: 'RabbitMQ',
+  KAFKA: 'Kafka',
+};
+
+type Detected = Omit<ExternalSystemInfo, 'usages'>;
+
+/**
+ * Infers the systems a NestJS app talks to from the modules and clients it
+ * configures: TypeORM and Mongoose connections, HTTP base URLs, microservice
+ * client transports and Bull queues.
+ */
+export class ExternalSystemAnalyzer {
+  private project: Project;
+
+  constructor(projectPath: string, sources: SourceFilter = DEFAULT_SOURCE_FILTER, shared?: SourceProject) {
+    if (shared) {
+      this.project = shared.project;
+      return;
+    }
+    this.project = new Project({
+      tsConfigFilePath: `${projectPath}/tsconfig.json`,
+      skipAddingFilesFromTsConfig: true,
+    });
+    addSourceFiles(this.project, projectPath, sources);
+  }
+
+  analyze(modules: ModuleInfo[] = []): ExternalSystemInfo[] {
+    const systems = new Map<string, ExternalSystemInfo>();
+
+    for (const sourceFile of this.project.getSourceFiles()) {
+      for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const expression = call.getExpression();
+        if (!Node.isPropertyAccessExpression(expression)) continue;
+
+        const source = `${expression.getExpression().getText()}.${expression.getName()}`;
+        const detected = this.detect(call, expression.getExpression().getText(), expression.getName());
+        if (detected.length === 0) continue;
+
+        const usage: ExternalSystemUsage = {
+          source,
+          filePath: sourceFile.getFilePath(),
+          moduleId: this.findModuleId(call, modules),
+        };
+
+        for (const system of detected) {
+          const existing = systems.get(system.id);
+          if (existing) {
+            existing.usages.push(usage);
+            existing.description = this.mergeDescriptions(existing.description, system.description);
+          } else {
+            systems.set(system.id, { ...system, usages: [usage] });
+          }
+        }
+      }
+    }
+
+    return [...systems.values()];
+  }
+
+  private detect(call: CallExpression, receiver: string, method: string): Detected[] {
+    switch (receiver) {
+      case 'TypeOrmModule':
+        return method === 'forRoot' || method === 'forRootAsync' ? [this.detectTypeOrm(call)] : [];
+      case 'MongooseModule':
+        return method === 'forRoot' || method === 'forRootAsync' ? [this.detectMongoose(call, method)] : [];
+      case 'HttpModule':
+        return method === 'register' || method === 'registerAsync' ? this.detectHttpApi(call) : [];
+      case 'axios':
+        return method === 'create' ? this.detectHttpApi(call) : [];
+      case 'ClientsModule':
+        return method === 'register' || method === 'registerAsync' ? this.detectClients(call) : [];
+      case 'BullModule':
+        return method === 'registerQueue' || method === 'registerQueueAsync' ? this.detectQueues(call) : [];
+      default:
+        return [];
+    }
+  }
+
+  private detectTypeOrm(call: CallExpression): Detected {
+    const [options] = call.getArguments();
+    const type = this.findString(options, 'type');
+    const technology = type ? DATABASE_TECHNOLOGIES[type] ?? type : 'TypeORM';
+    // Named connections (forRoot({ name })) are separate databases
+    const name = this.getString(options, 'name') ?? this.findString(options, 'database') ?? technology;
+
+    return { id: `database:${name}`, name, kind: 'database', technology, description: 'Connected with TypeORM' };
+  }
+
+  private detectMongoose(call: CallExpression, method: string): Detected {
+    const [first, second] = call.getArguments();
+    const uri = method === 'forRoot' ? getStringLiteral(first) : this.findString(first, 'uri');
+    const options = method === 'forRoot' ? second : first;
+    const name = this.getString(options, 'connectionName') ?? (uri && this.getDatabaseName(uri)) ?? 'MongoDB';
+
+    return { id: `database:${name}`, name, kind: 'database', technology: 'MongoDB', description: 'Connected with Mongoose' };
+  }
+
+  private detectHttpApi(call: CallExpression): Detected[] {
+    const [options] = call.getArguments();
+    const baseUrl = this.findString(options, 'baseURL');
+    if (!baseUrl) return [];
+
+    const name = this.getHostName(baseUrl);
+    return [{ id: `api:${name}`, name, kind: 'api', technology: 'HTTP', description: baseUrl }];
+  }
+
+  private detectClients(call: CallExpression): Detected[] {
+    const [clients] = call.getArguments();
+    const elements = Node.isArrayLiteralExpression(clients)
+      ? clients.getElements()
+      : this.getArrayElements(clients, 'clients');
+
+    return elements.map(element => {
+      const transport = this.findInitializer(element, 'transport')?.getText().split('.').pop() ?? 'TCP';
+      const technology = TRANSPORT_TECHNOLOGIES[transport] ?? transport;
+      const clientName = this.getString(element, 'name');
+
+      return {
+        id: `message-broker:${technology}`,
+        name: technology,
+        kind: 'message-broker' as const,
+        technology,
+        description: clientName ? `Clients: ${clientName}` : undefined,
+      };
+    });
+  }
+
+  private detectQueues(call: CallExpression): Detected[] {
+    // BullModule comes from either @nestjs/bull or @nestjs/bullmq
+    const bullImport = call.getSourceFile().getImportDeclaration(declaration =>
+      declaration.getNamedImports().some(named => named.getName() === 'BullModule')
+    );
+    const technology = bullImport?.getModuleSpecifierValue() === '@nestjs/bullmq' ? 'BullMQ' : 'Bull';
+
+    return call.getArguments()
+      .map(options => this.getString(options, 'name'))
+      .filter((name): name is string => name !== undefined)
+      .map(name => ({ id: `queue:${name}`, name, kind: 'queue' as const, technology }));
+  }
+
+  /**
+   * Module of the class the call appears in: the module itself when the
+   * call is in its decorator, or the module that registers the class.
+   */
+  private findModuleId(call: CallExpression, modules: ModuleInfo[]): string | undefined {
+    const classDeclaration = call.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
+    if (!classDeclaration) return undefined;
+
+    const classId = getClassId(classDeclaration);
+    return modules.find(m => m.id === classId || m.classIds.includes(classId))?.id;
+  }
+
+  private getString(node: Node | undefined, propertyName: string): string | undefined {
+    return getStringLiteral(getInitializer(node, propertyName));
+  }
+
+  /**
+   * Like getString, but also looks inside nested objects and factories
+   * (e.g. forRootAsync({ useFactory: () => ({ type: 'postgres' }) })).
+   */
+  private findString(node: Node | undefined, propertyName: string): string | undefined {
+    return getStringLiteral(this.findInitializer(node, propertyName));
+  }
+
+  private findInitializer(node: Node | undefined, propertyName: string): Node | undefined {
+    if (!node) return undefined;
+    const property = node.getDescendantsOfKind(SyntaxKind.PropertyAssignment).find(p => p.getName() === propertyName);
+    return property?.getInitializer();
+  }
+
+  private getArrayElements(node: Node | undefined, propertyName: string): Node[] {
+    const initializer = getInitializer(node, propertyName);
+    return initializer && Node.isArrayLiteralExpression(initializer) ? initializer.getElements() : [];
+  }
+
+  private getDatabaseName(uri: string): string | undefined {
+    const match = uri.match(/^[a-z+]+:\/\/[^/]+\/([^/?]+)/i);
+    return match ? match[1] : undefined;
+  }
+
+  private getHostName(url: string): string {
+    try {
+      return new URL(url).hostname || url;
+    } catch {
+      return url;
+    }
+  }
+
+  private mergeDescriptions(existing: string | undefined, added: string | undefined): string | undefined {
+    if (!existing || !added || existing === added) return existing ?? added;
+    // Client lists from several ClientsModule calls are combined
+    if (existing.startsWith('Clients: ') && added.startsWith('Clients: ')) {
+      const names = new Set([...existing.slice(9).split(', '), ...added.slice(9).split(', ')]);
+      return `Clients: ${[...names].join(', ')}`;
+    }
+    return existing;
+  }
+}
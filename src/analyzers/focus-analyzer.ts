@@ -0,0 +1,94 @@
+import { ClassInfo, ModuleInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+
+export const FOCUS_DIRECTIONS = ['up', 'down', 'both'] as const;
+export type FocusDirection = typeof FOCUS_DIRECTIONS[number]; // up: dependents, down: dependencies
+
+export type FocusTarget =
+  | { kind: 'class'; classInfo: ClassInfo }
+  | { kind: 'module'; module: ModuleInfo };
+
+export interface FocusResult {
+  roots: ClassInfo[]; // The focused class, or every class of the focused module
+  classes: ClassInfo[]; // Roots and the classes reached from them
+  depths: Map<string, number>; // Injection hops from the nearest root, by class ID
+}
+
+/**
+ * The neighbourhood of a class or module: what it transitively injects
+ * and what injects it, across module boundaries.
+ */
+export class FocusAnalyzer {
+  private dependencies = new Map<string, Set<ClassInfo>>(); // By consumer class ID
+  private dependents = new Map<string, Set<ClassInfo>>(); // By injected class ID
+
+  constructor(private modules: ModuleInfo[], private classes: ClassInfo[]) {
+    const graph = new DependencyGraph(modules, classes);
+
+    for (const classInfo of classes) {
+      this.dependencies.set(classInfo.id, new Set());
+      this.dependents.set(classInfo.id, new Set());
+    }
+
+    // Factories inject their dependencies on behalf of the consumer, as in the class diagrams
+    for (const classInfo of classes) {
+      for (const dep of classInfo.dependencies) {
+        const resolved = graph.resolve(classInfo, dep);
+        for (const target of [resolved.target, ...resolved.injects]) {
+          if (!target || target.id === classInfo.id) continue;
+          this.dependencies.get(classInfo.id)!.add(target);
+          this.dependents.get(target.id)!.add(classInfo);
+        }
+      }
+    }
+  }
+
+  /**
+   * Classes and modules matching a name, or a path relative to the project
+   * root plus the name, e.g. "src/users/users.service.ts#UsersService".
+   */
+  find(query: string): FocusTarget[] {
+    const matches = (item: { id: string; name: string }) =>
+      query.includes('#') ? item.id === query || item.id.endsWith(`/${query}`) : item.name === query;
+
+    return [
+      ...this.classes.filter(matches).map((classInfo): FocusTarget => ({ kind: 'class', classInfo })),
+      ...this.modules.filter(matches).map((module): FocusTarget => ({ kind: 'module', module })),
+    ];
+  }
+
+  focus(target: FocusTarget, depth: number, direction: FocusDirection): FocusResult {
+    const roots = target.kind === 'class'
+      ? [target.classInfo]
+      : this.classes.filter(c => c.moduleId === target.module.id);
+
+    const depths = new Map<string, number>(roots.map(root => [root.id, 0]));
+    if (direction !== 'up') this.walk(roots, depth, this.dependencies, depths);
+    if (direction !== 'down') this.walk(roots, depth, this.dependents, depths);
+
+    return {
+      roots,
+      classes: this.classes.filter(c => depths.has(c.id)),
+      depths,
+    };
+  }
+
+  // Breadth first, so every class keeps its shortest distance from the roots
+  private walk(roots: ClassInfo[], depth: number, edges: Map<string, Set<ClassInfo>>, depths: Map<string, number>): void {
+    const visited = new Set(roots.map(root => root.id));
+    let frontier = roots;
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: ClassInfo[] = [];
+      for (const classInfo of frontier) {
+        for (const neighbour of edges.get(classInfo.id) ?? []) {
+          if (visited.has(neighbour.id)) continue;
+          visited.add(neighbour.id);
+          depths.set(neighbour.id, Math.min(depths.get(neighbour.id) ?? hop, hop));
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+
+/**
+ * Checks out git revisions of the repository containing a project into
+ * temporary worktrees, so they can be analyzed side by side.
+ */
+export class GitRevisions {
+  private worktrees: string[] = [];
+  private repositoryRoot: string;
+
+  constructor(private projectPath: string) {
+    this.repositoryRoot = this.git(['rev-parse', '--show-toplevel']).trim();
+  }
+
+  /**
+   * Returns the project's path inside a fresh worktree at the revision.
+   */
+  checkout(ref: string): string {
+    let commit: string;
+    try {
+      commit = this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).trim();
+    } catch {
+      throw new Error(`Unknown git revision: ${ref}`);
+    }
+    const worktree = mkdtempSync(join(tmpdir(), 'nest-d2-'));
+    this.worktrees.push(worktree);
+    this.git(['worktree', 'add', '--detach', worktree, commit]);
+
+    // Share node_modules so tsconfig `extends` and type imports resolve as they do locally
+    const projectPath = join(worktree, relative(this.repositoryRoot, realpathSync(this.projectPath)));
+    const nodeModules = join(this.projectPath, 'node_modules');
+    if (existsSync(nodeModules) && existsSync(projectPath) && !existsSync(join(projectPath, 'node_modules'))) {
+      symlinkSync(nodeModules, join(projectPath, 'node_modules'), 'junction');
+    }
+
+    return projectPath;
+  }
+
+  cleanup(): void {
+    for (const worktree of this.worktrees) {
+      try {
+        this.git(['worktree', 'remove', '--force', worktree]);
+      } catch {
+        rmSync(worktree, { recursive: true, force: true });
+        this.git(['worktree', 'prune']);
+      }
+    }
+    this.worktrees = [];
+  }
+
+  private git(args: string[]): string {
+    try {
+      return execFileSync('git', ['-C', this.projectPath, ...args], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(stderr || `git ${args.join(' ')} failed`);
+    }
+  }
+}
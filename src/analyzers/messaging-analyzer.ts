@@ -0,0 +1,78 @@
+import { ClassInfo, MessageInfo } from '../types';
+
+export interface MessageParticipant {
+  classInfo: ClassInfo;
+  message: MessageInfo;
+}
+
+export interface MessageChannel {
+  channel: string;
+  transport: MessageInfo['transport'];
+  style: MessageInfo['style'];
+  producers: MessageParticipant[];
+  consumers: MessageParticipant[]; // Including @OnEvent wildcard handlers that match the event
+  status: 'ok' | 'unhandled' | 'unproduced'; // Nothing consumes it / nothing produces it
+}
+
+/**
+ * Groups the messages classes send and handle into channels, matching
+ * send() with @MessagePattern, emit() with @EventPattern or @OnEvent, and
+ * queue.add() with the queue's @Processor.
+ */
+export class MessagingAnalyzer {
+  constructor(private classes: ClassInfo[]) {}
+
+  analyze(): MessageChannel[] {
+    const channels = new Map<string, MessageChannel>();
+
+    for (const classInfo of this.classes) {
+      for (const message of classInfo.messages || []) {
+        const key = `${message.transport}:${message.style}:${message.channel}`;
+        if (!channels.has(key)) {
+          channels.set(key, {
+            channel: message.channel,
+            transport: message.transport,
+            style: message.style,
+            producers: [],
+            consumers: [],
+            status: 'ok',
+          });
+        }
+        const participants = channels.get(key)!;
+        (message.role === 'producer' ? participants.producers : participants.consumers).push({ classInfo, message });
+      }
+    }
+
+    // EventEmitter2 handlers like @OnEvent('user.*') consume every matching event
+    const wildcards = [...channels.values()].filter(c => c.transport === 'event-emitter' && c.channel.includes('*'));
+    for (const wildcard of wildcards) {
+      const pattern = this.toWildcardPattern(wildcard.channel);
+      const matched = [...channels.values()].filter(c =>
+        c !== wildcard && c.transport === 'event-emitter' && !c.channel.includes('*') && pattern.test(c.channel)
+      );
+      for (const channel of matched) {
+        channel.consumers.push(...wildcard.consumers);
+      }
+      if (matched.length > 0 && wildcard.producers.length === 0) {
+        channels.delete(`${wildcard.transport}:${wildcard.style}:${wildcard.channel}`);
+      }
+    }
+
+    for (const channel of channels.values()) {
+      if (channel.consumers.length === 0) channel.status = 'unhandled';
+      else if (channel.producers.length === 0) channel.status = 'unproduced';
+    }
+
+    return [...channels.values()];
+  }
+
+  // EventEmitter2 splits names on '.': '*' matches one segment, '**' any number
+  private toWildcardPattern(channel: string): RegExp {
+    const segments = channel.split('.').map(segment => {
+      if (segment === '**') return '.*';
+      if (segment === '*') return '[^.]+';
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+    return new RegExp(`^${segments.join('\\.')}$`);
+  }
+}
@@ -0,0 +1,126 @@
+import { ArchitectureMetrics, ClassInfo, ClassMetrics, ModuleInfo, ModuleMetrics, ProviderInfo } from '../types';
+import { DependencyGraph } from './dependency-graph';
+
+// Module metrics the component diagram can be coloured by
+export const HEATMAP_METRICS = ['instability', 'afferent', 'efferent', 'size'] as const;
+export type HeatmapMetric = typeof HEATMAP_METRICS[number];
+
+/**
+ * Size and coupling metrics: afferent (Ca) and efferent (Ce) coupling over
+ * module imports, instability, unused exports and imports, and constructor
+ * injections per class.
+ */
+export class MetricsAnalyzer {
+  private graph: DependencyGraph;
+
+  constructor(private modules: ModuleInfo[], private classes: ClassInfo[]) {
+    this.graph = new DependencyGraph(modules, classes);
+  }
+
+  analyze(): ArchitectureMetrics {
+    const imports = new Map(this.modules.map(module => [module.id, this.getImportedModules(module)]));
+
+    const modules = this.modules.map((module): ModuleMetrics => {
+      const efferentCoupling = imports.get(module.id)!.length;
+      const afferentCoupling = this.modules.filter(m => imports.get(m.id)!.some(imported => imported.id === module.id)).length;
+      const coupling = afferentCoupling + efferentCoupling;
+
+      return {
+        moduleId: module.id,
+        name: module.name,
+        providers: module.providers.length,
+        controllers: module.controllers.length,
+        afferentCoupling,
+        efferentCoupling,
+        instability: coupling > 0 ? efferentCoupling / coupling : undefined,
+        unusedExports: this.getUnusedExports(module),
+        unusedImports: imports.get(module.id)!
+          .filter(imported => !this.usesImport(module, imported))
+          .map(imported => imported.name),
+      };
+    });
+
+    const classes = this.classes
+      .map((classInfo): ClassMetrics => ({
+        classId: classInfo.id,
+        name: classInfo.name,
+        moduleId: classInfo.moduleId,
+        injections: classInfo.dependencies.length,
+      }))
+      .sort((a, b) => b.injections - a.injections || a.name.localeCompare(b.name));
+
+    return { modules, classes };
+  }
+
+  // The project modules a module imports
+  private getImportedModules(module: ModuleInfo): ModuleInfo[] {
+    const imported = new Map<string, ModuleInfo>();
+
+    for (const importedName of module.imports) {
+      const target = this.graph.resolveImport(module, importedName);
+      if (target && target.id !== module.id) imported.set(target.id, target);
+    }
+
+    return [...imported.values()];
+  }
+
+  /**
+   * Exported providers that no class or factory of another module injects,
+   * and no class of another module uses as a guard, interceptor, pipe or
+   * filter. Re-exported modules are not counted.
+   */
+  private getUnusedExports(module: ModuleInfo): string[] {
+    const consumers = this.classes.filter(c => c.moduleId && c.moduleId !== module.id);
+    const otherProviders = this.modules.filter(m => m.id !== module.id).flatMap(m => m.providers);
+
+    return module.exports
+      .map(exported => module.providers.find(p => p.token === exported))
+      .filter((provider): provider is ProviderInfo => provider !== undefined)
+      .filter(provider => {
+        const injected = consumers.some(c => c.dependencies.some(dep => this.graph.providesToken(provider, this.graph.getTokenRef(dep))));
+        const aliased = otherProviders.some(p => p.inject?.includes(provider.token) || p.useExisting === provider.token);
+        const enhances = consumers.some(c => this.getEnhancers(c).includes(provider.token));
+        return !injected && !aliased && !enhances;
+      })
+      .map(provider => provider.token);
+  }
+
+  // @UseGuards() and friends on the class and its methods, and parameter pipes
+  private getEnhancers(classInfo: ClassInfo): string[] {
+    return [classInfo.enhancers, ...classInfo.methods.map(method => method.enhancers)]
+      .flatMap(enhancers => enhancers ? [...enhancers.guards, ...enhancers.interceptors, ...enhancers.pipes, ...enhancers.filters] : [])
+      .concat(classInfo.methods.flatMap(method => method.parameterPipes ?? []));
+  }
+
+  /**
+   * Whether a module injects or uses as an enhancer anything the imported
+   * module exports, or re-exports it. Modules with controllers or without exports are imported
+   * to register routes or for side effects, so they always count as used.
+   */
+  private usesImport(module: ModuleInfo, imported: ModuleInfo): boolean {
+    const tokens = this.graph.getExportedTokens(imported);
+    if (tokens.size === 0 || imported.controllers.length > 0 || module.exports.includes(imported.name)) return true;
+
+    const injects = this.classes
+      .filter(c => c.moduleId === module.id)
+      .some(c =>
+        c.dependencies.some(dep => this.graph.hasToken(tokens, this.graph.getTokenRef(dep)))
+        || this.getEnhancers(c).some(name => this.graph.hasToken(tokens, { name }))
+      );
+    const factoryInjects = module.providers.some(p =>
+      [...(p.inject ?? []), ...(p.useExisting ? [p.useExisting] : [])].some(token => this.graph.hasToken(tokens, { name: token }))
+    );
+
+    return injects || factoryInjects;
+  }
+
+  // Instability is undefined for modules that neither import nor are imported
+  static getHeatmapValue(metrics: ModuleMetrics, metric: HeatmapMetric): number | undefined {
+    switch (metric) {
+      case 'instability': return metrics.instability;
+      case 'afferent': return metrics.afferentCoupling;
+      case 'efferent': return metrics.efferentCoupling;
+      case 'size': return metrics.providers + metrics.controllers;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { ClassInfo, MethodInfo, MiddlewareBinding, MiddlewareRoute } from '../types';
+
+/**
+ * Matches middleware bindings from MiddlewareConsumer against controllers
+ * and their route handlers.
+ */
+export class MiddlewareResolver {
+  constructor(private classes: ClassInfo[]) {}
+
+  /**
+   * Controllers with at least one route covered by the binding.
+   */
+  getControllers(binding: MiddlewareBinding): ClassInfo[] {
+    return this.classes.filter(classInfo => {
+      if (!classInfo.controller) return false;
+
+      const handlers = classInfo.methods.filter(m => m.route);
+      if (handlers.length === 0) {
+        return binding.routes.some(route => this.isController(route, classInfo));
+      }
+      return handlers.some(handler => this.appliesTo(binding, classInfo, handler));
+    });
+  }
+
+  appliesTo(binding: MiddlewareBinding, controller: ClassInfo, handler: MethodInfo): boolean {
+    if (binding.exclude.some(route => this.matches(route, controller, handler))) return false;
+    return binding.routes.some(route => this.matches(route, controller, handler));
+  }
+
+  private matches(route: MiddlewareRoute, controller: ClassInfo, handler: MethodInfo): boolean {
+    if (route.controller) {
+      return this.isController(route, controller);
+    }
+
+    if (route.method && handler.route && route.method !== handler.route.httpMethod) {
+      return false;
+    }
+
+    // Middleware paths are relative to the global prefix, like controller paths
+    const handlerPath = this.normalizePath(`${controller.controller?.path ?? ''}/${handler.route?.path ?? ''}`);
+    return this.toPattern(route.path ?? '').test(handlerPath);
+  }
+
+  // Unresolved controller references fall back to the name
+  private isController(route: MiddlewareRoute, controller: ClassInfo): boolean {
+    return route.controllerId ? route.controllerId === controller.id : route.controller === controller.name;
+  }
+
+  /**
+   * Converts a route path such as 'users/*' or 'users/:id' into a regex.
+   */
+  private toPattern(path: string): RegExp {
+    const pattern = this.normalizePath(path)
+      .split('/')
+      .map(segment => {
+        if (segment === '*' || segment === '(.*)' || segment === '*splat') return '.*';
+        if (segment.startsWith(':')) return '[^/]+';
+        return segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      })
+      .join('/');
+
+    return new RegExp(`^${pattern}$`);
+  }
+
+  private normalizePath(path: string): string {
+    return path
+      .split('/')
+      .filter(segment => segment.length > 0)
+      .join('/');
+  }
+}
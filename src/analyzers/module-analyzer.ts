@@ -1,29 +1,72 @@
-import { Project, SourceFile, Node, SyntaxKind } from 'ts-morph';
-import { ModuleInfo } from '../types';
+import { Project, SourceFile, Node, SyntaxKind, ClassDeclaration, MethodDeclaration, ObjectLiteralExpression } from 'ts-morph';
+import { ModuleInfo, ModuleImportInfo, DynamicModuleInfo, ProviderInfo, MiddlewareBinding, MiddlewareRoute, RouteInfo, SourceFilter, WorkspaceInfo } from '../types';
+import { getStringLiteral } from './object-literals';
+import { addSourceFiles, DEFAULT_SOURCE_FILTER, SourceProject } from './source-files';
+import { findWorkspaceProject } from './workspace-analyzer';
+import { getClassId, resolveClassDeclaration, resolveClassId } from './symbol-ids';
 
 export class ModuleAnalyzer {
   private project: Project;
+  private resolving = new Set<MethodDeclaration>();
+  private cache = new Map<string, ModuleInfo | null>(); // By file path, until invalidated
 
-  constructor(projectPath: string) {
+  constructor(
+    projectPath: string,
+    sources: SourceFilter = DEFAULT_SOURCE_FILTER,
+    private workspace?: WorkspaceInfo,
+    shared?: SourceProject
+  ) {
+    if (shared) {
+      this.project = shared.project;
+      return;
+    }
     this.project = new Project({
       tsConfigFilePath: `${projectPath}/tsconfig.json`,
       skipAddingFilesFromTsConfig: true,
     });
-    this.project.addSourceFilesAtPaths(`${projectPath}/src/**/*.module.ts`);
+    addSourceFiles(this.project, projectPath, sources, '.module.ts');
   }
 
   analyze(): ModuleInfo[] {
     const modules: ModuleInfo[] = [];
-    const sourceFiles = this.project.getSourceFiles();
+    const sourceFiles = this.project.getSourceFiles().filter(sourceFile => sourceFile.getFilePath().endsWith('.module.ts'));
 
     for (const sourceFile of sourceFiles) {
-      const moduleInfo = this.analyzeModuleFile(sourceFile);
+      const filePath = sourceFile.getFilePath();
+      if (!this.cache.has(filePath)) {
+        this.cache.set(filePath, this.analyzeModuleFile(sourceFile));
+      }
+      const moduleInfo = this.cache.get(filePath);
       if (moduleInfo) {
         modules.push(moduleInfo);
       }
     }
 
-    return modules;
+    return this.markGloballyImported(modules);
+  }
+
+  /**
+   * A DynamicModule with global: true only makes the module global where it
+   * is imported through that method, e.g. forRoot() but not forFeature().
+   * Cached modules keep their own @Global() status.
+   */
+  private markGloballyImported(modules: ModuleInfo[]): ModuleInfo[] {
+    const globalIds = new Set(
+      modules.flatMap(m => m.importDetails.filter(i => i.dynamicModule?.global).map(i => i.id ?? ''))
+    );
+
+    return modules.map(module =>
+      !module.isGlobal && globalIds.has(module.id) ? { ...module, isGlobal: true } : module
+    );
+  }
+
+  /**
+   * Forgets the analysis of changed files, so the next analyze() reads them again.
+   */
+  invalidate(filePaths: Iterable<string>): void {
+    for (const filePath of filePaths) {
+      this.cache.delete(filePath);
+    }
   }
 
   private analyzeModuleFile(sourceFile: SourceFile): ModuleInfo | null {
@@ -41,46 +84,492 @@ export class ModuleAnalyzer {
 
       const name = classDeclaration.getName() || 'UnknownModule';
       const filePath = sourceFile.getFilePath();
+      const importDetails = this.extractImports(configObject);
+      const dynamicModules = this.extractDynamicModules(classDeclaration);
+      const providers = this.mergeProviders(
+        this.extractProviders(configObject),
+        ...dynamicModules.map(d => d.providers)
+      );
+      const middleware = this.extractMiddleware(classDeclaration);
 
       return {
+        id: getClassId(classDeclaration),
         name,
         filePath,
-        imports: this.extractArrayPropertyValues(configObject, 'imports'),
-        providers: this.extractArrayPropertyValues(configObject, 'providers'),
+        imports: this.mergeUnique(
+          importDetails.map(i => i.name),
+          ...dynamicModules.map(d => d.imports)
+        ),
+        importDetails,
+        dynamicModules,
+        providers,
         controllers: this.extractArrayPropertyValues(configObject, 'controllers'),
-        exports: this.extractArrayPropertyValues(configObject, 'exports'),
-        guards: this.extractArrayPropertyValues(configObject, 'guards'),
-        interceptors: this.extractArrayPropertyValues(configObject, 'interceptors'),
-        pipes: this.extractArrayPropertyValues(configObject, 'pipes'),
-        filters: this.extractArrayPropertyValues(configObject, 'filters'),
+        classIds: this.mergeUnique(
+          this.getArrayElements(configObject, 'controllers').map(element => resolveClassId(element) ?? ''),
+          providers.map(provider => provider.useClassId ?? ''),
+          middleware.flatMap(binding => binding.middlewareIds)
+        ).filter(id => id.length > 0),
+        exports: this.mergeUnique(
+          this.extractArrayPropertyValues(configObject, 'exports'),
+          ...dynamicModules.map(d => d.exports)
+        ),
+        isGlobal: classDeclaration.getDecorator('Global') !== undefined,
+        guards: this.getGlobalEnhancers(providers, 'APP_GUARD'),
+        interceptors: this.getGlobalEnhancers(providers, 'APP_INTERCEPTOR'),
+        pipes: this.getGlobalEnhancers(providers, 'APP_PIPE'),
+        filters: this.getGlobalEnhancers(providers, 'APP_FILTER'),
+        middleware,
+        ...this.extractC4Metadata(classDeclaration),
+        project: this.workspace?.monorepo ? findWorkspaceProject(this.workspace, filePath)?.name : undefined,
       };
     }
 
     return null;
   }
 
-  private extractArrayPropertyValues(
-    objectLiteral: any,
-    propertyName: string
-  ): string[] {
+  private extractImports(objectLiteral: ObjectLiteralExpression): ModuleImportInfo[] {
+    return this.getArrayElements(objectLiteral, 'imports')
+      .map((element): ModuleImportInfo | null => {
+        const info = this.analyzeImportElement(element);
+        return info && { ...info, line: element.getStartLineNumber() };
+      })
+      .filter((info): info is ModuleImportInfo => info !== null);
+  }
+
+  private analyzeImportElement(element: Node): ModuleImportInfo | null {
+    // Handle identifiers (e.g., UsersModule)
+    if (Node.isIdentifier(element)) {
+      return { name: element.getText(), id: resolveClassId(element), isForwardRef: false };
+    }
+
+    if (Node.isCallExpression(element)) {
+      const expression = element.getExpression();
+
+      // Handle forwardRef(() => UsersModule)
+      if (Node.isIdentifier(expression) && expression.getText() === 'forwardRef') {
+        const target = this.unwrapForwardRef(element);
+        if (!target) return null;
+        const info = this.analyzeImportElement(target);
+        return info ? { ...info, isForwardRef: true } : null;
+      }
+
+      // Handle dynamic modules (e.g., TypeOrmModule.forFeature([User]))
+      if (Node.isPropertyAccessExpression(expression)) {
+        const method = expression.getName();
+        return {
+          name: expression.getExpression().getText(),
+          id: resolveClassId(expression.getExpression()),
+          isForwardRef: false,
+          method,
+          arguments: element.getArguments().map(arg => arg.getText().replace(/\s+/g, ' ')),
+          dynamicModule: this.resolveDynamicModule(expression.getExpression(), method),
+        };
+      }
+
+      return { name: expression.getText(), isForwardRef: false };
+    }
+
+    // Handle property access without calls (e.g., SomeModule)
+    if (Node.isPropertyAccessExpression(element)) {
+      return { name: element.getExpression().getText(), isForwardRef: false };
+    }
+
+    return { name: element.getText(), isForwardRef: false };
+  }
+
+  private unwrapForwardRef(call: Node): Node | undefined {
+    if (!Node.isCallExpression(call)) return undefined;
+
+    const [factory] = call.getArguments();
+    if (!factory || !Node.isArrowFunction(factory)) return undefined;
+
+    const body = factory.getBody();
+    if (Node.isBlock(body)) {
+      return body.getFirstDescendantByKind(SyntaxKind.ReturnStatement)?.getExpression();
+    }
+    return body;
+  }
+
+  /**
+   * Follows `SomeModule.method()` to the DynamicModule returned by that
+   * static method, when the module class is part of the analyzed project.
+   */
+  private resolveDynamicModule(classExpression: Node, method: string): DynamicModuleInfo | undefined {
+    const classDeclaration = resolveClassDeclaration(classExpression);
+    if (!classDeclaration) return undefined;
+
+    const staticMethod = classDeclaration.getStaticMethod(method);
+    if (staticMethod) {
+      // Guard against dynamic modules that (indirectly) import themselves
+      if (this.resolving.has(staticMethod)) return undefined;
+      this.resolving.add(staticMethod);
+      try {
+        return this.analyzeDynamicModuleMethod(staticMethod);
+      } finally {
+        this.resolving.delete(staticMethod);
+      }
+    }
+
+    const configurable = this.analyzeConfigurableModule(classDeclaration);
+    return configurable ? { ...configurable, method } : undefined;
+  }
+
+  private extractDynamicModules(classDeclaration: ClassDeclaration): DynamicModuleInfo[] {
+    const dynamicModules: DynamicModuleInfo[] = [];
+
+    for (const method of classDeclaration.getStaticMethods()) {
+      const dynamicModule = this.analyzeDynamicModuleMethod(method);
+      if (dynamicModule) {
+        dynamicModules.push(dynamicModule);
+      }
+    }
+
+    const configurable = this.analyzeConfigurableModule(classDeclaration);
+    if (configurable && !dynamicModules.some(d => d.method === configurable.method)) {
+      dynamicModules.push(configurable);
+    }
+
+    return dynamicModules;
+  }
+
+  private analyzeDynamicModuleMethod(method: MethodDeclaration): DynamicModuleInfo | undefined {
+    const returnedObjects = method
+      .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+      .map(statement => this.resolveObjectLiteral(statement.getExpression()))
+      .filter(Node.isObjectLiteralExpression)
+      .filter(objectLiteral => objectLiteral.getProperty('module') !== undefined);
+
+    if (returnedObjects.length === 0) return undefined;
+
+    // Merge every return path (e.g. sync and async branches)
+    return {
+      method: method.getName(),
+      imports: this.mergeUnique(...returnedObjects.map(o => this.extractImports(o).map(i => i.name))),
+      providers: this.mergeProviders(...returnedObjects.map(o => this.extractProviders(o))),
+      exports: this.mergeUnique(...returnedObjects.map(o => this.extractArrayPropertyValues(o, 'exports'))),
+      global: returnedObjects.some(o => this.getPropertyInitializer(o, 'global')?.getText() === 'true'),
+    };
+  }
+
+  /**
+   * Modules extending `ConfigurableModuleClass` inherit their static method
+   * from `ConfigurableModuleBuilder`, which only contributes the options token.
+   */
+  private analyzeConfigurableModule(classDeclaration: ClassDeclaration): DynamicModuleInfo | undefined {
+    const baseClass = classDeclaration.getExtends()?.getExpression();
+    if (!baseClass) return undefined;
+
+    const symbol = baseClass.getSymbol();
+    const target = symbol?.getAliasedSymbol() ?? symbol;
+    const bindingElement = target?.getDeclarations().find(Node.isBindingElement);
+    const declaration = bindingElement?.getFirstAncestorByKind(SyntaxKind.VariableDeclaration);
+    const initializer = declaration?.getInitializer()?.getText() ?? '';
+    if (!initializer.includes('ConfigurableModuleBuilder')) return undefined;
+
+    const optionsToken = declaration!
+      .getDescendantsOfKind(SyntaxKind.BindingElement)
+      .find(element => (element.getPropertyNameNode()?.getText() ?? element.getName()) === 'MODULE_OPTIONS_TOKEN');
+    const methodMatch = initializer.match(/setClassMethodName\(\s*['"](\w+)['"]/);
+
+    return {
+      method: methodMatch ? methodMatch[1] : 'register',
+      imports: [],
+      providers: [{
+        token: optionsToken ? optionsToken.getName() : 'MODULE_OPTIONS_TOKEN',
+        tokenType: 'constant',
+        kind: 'useValue',
+      }],
+      exports: [],
+      global: false,
+    };
+  }
+
+  private extractProviders(objectLiteral: ObjectLiteralExpression): ProviderInfo[] {
+    return this.getArrayElements(objectLiteral, 'providers')
+      .map(element => this.analyzeProviderElement(element))
+      .filter((provider): provider is ProviderInfo => provider !== null);
+  }
+
+  private analyzeProviderElement(element: Node): ProviderInfo | null {
+    // Handle class providers (e.g., UserService)
+    if (Node.isIdentifier(element)) {
+      const resolved = this.resolveObjectLiteral(element);
+      if (resolved && Node.isObjectLiteralExpression(resolved)) {
+        return this.analyzeProviderElement(resolved);
+      }
+
+      const name = element.getText();
+      const id = resolveClassId(element);
+      return { token: name, tokenType: 'class', tokenId: id, kind: 'class', useClass: name, useClassId: id };
+    }
+
+    // Handle custom providers (e.g., { provide: 'CACHE', useFactory: ... })
+    if (Node.isObjectLiteralExpression(element)) {
+      const provide = this.getPropertyInitializer(element, 'provide');
+      if (!provide) return null;
+
+      const token = this.getTokenName(provide);
+      const tokenId = resolveClassId(provide);
+      const tokenType = Node.isStringLiteral(provide) || Node.isNoSubstitutionTemplateLiteral(provide)
+        ? 'string'
+        : tokenId ? 'class' : 'constant';
+
+      const useClass = this.getPropertyInitializer(element, 'useClass');
+      if (useClass) {
+        return { token, tokenType, tokenId, kind: 'useClass', useClass: useClass.getText(), useClassId: resolveClassId(useClass) };
+      }
+
+      const useExisting = this.getPropertyInitializer(element, 'useExisting');
+      if (useExisting) {
+        return {
+          token,
+          tokenType,
+          tokenId,
+          kind: 'useExisting',
+          useExisting: this.getTokenName(useExisting),
+          useExistingId: resolveClassId(useExisting),
+        };
+      }
+
+      const useFactory = this.getPropertyInitializer(element, 'useFactory');
+      if (useFactory) {
+        return {
+          token,
+          tokenType,
+          tokenId,
+          kind: 'useFactory',
+          factory: Node.isIdentifier(useFactory) || Node.isPropertyAccessExpression(useFactory)
+            ? useFactory.getText()
+            : undefined,
+          inject: this.getArrayElements(element, 'inject').map(dependency => {
+            // Optional factory dependencies: { token: X, optional: true }
+            if (Node.isObjectLiteralExpression(dependency)) {
+              const optionalToken = this.getPropertyInitializer(dependency, 'token');
+              return optionalToken ? this.getTokenName(optionalToken) : dependency.getText();
+            }
+            return this.getTokenName(dependency);
+          }),
+        };
+      }
+
+      return { token, tokenType, tokenId, kind: 'useValue' };
+    }
+
+    const name = element.getText();
+    return { token: name, tokenType: 'constant', kind: 'class' };
+  }
+
+  /**
+   * Parses consumer.apply(A, B).exclude(...).forRoutes(...) chains in
+   * NestModule.configure().
+   */
+  private extractMiddleware(classDeclaration: ClassDeclaration): MiddlewareBinding[] {
+    const configure = classDeclaration.getInstanceMethod('configure');
+    if (!configure) return [];
+
+    const bindings: MiddlewareBinding[] = [];
+
+    for (const call of configure.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== 'forRoutes') continue;
+
+      const binding: MiddlewareBinding = {
+        middleware: [],
+        middlewareIds: [],
+        routes: call.getArguments().map(arg => this.analyzeMiddlewareRoute(arg)),
+        exclude: [],
+      };
+
+      // Walk the chain back to consumer.apply()
+      let current: Node = callee.getExpression();
+      while (Node.isCallExpression(current)) {
+        const chainCallee = current.getExpression();
+        if (!Node.isPropertyAccessExpression(chainCallee)) break;
+
+        if (chainCallee.getName() === 'exclude') {
+          binding.exclude.push(...current.getArguments().map(arg => this.analyzeMiddlewareRoute(arg)));
+        }
+        if (chainCallee.getName() === 'apply') {
+          for (const arg of current.getArguments()) {
+            binding.middleware.push(arg.getText().replace(/\s+/g, ' '));
+            const id = resolveClassId(arg);
+            if (id) binding.middlewareIds.push(id);
+          }
+          break;
+        }
+        current = chainCallee.getExpression();
+      }
+
+      if (binding.middleware.length > 0) {
+        bindings.push(binding);
+      }
+    }
+
+    return bindings;
+  }
+
+  private analyzeMiddlewareRoute(node: Node): MiddlewareRoute {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return { path: node.getLiteralText() };
+    }
+
+    // { path: 'users', method: RequestMethod.GET }
+    if (Node.isObjectLiteralExpression(node)) {
+      const path = this.getPropertyInitializer(node, 'path');
+      const method = this.getPropertyInitializer(node, 'method')?.getText().split('.').pop();
+      return {
+        path: path ? this.getTokenName(path) : undefined,
+        method: method && method !== 'ALL' ? method as RouteInfo['httpMethod'] : undefined,
+      };
+    }
+
+    const controller = resolveClassDeclaration(node);
+    if (controller) {
+      return { controller: node.getText(), controllerId: getClassId(controller) };
+    }
+
+    return { path: node.getText() };
+  }
+
+  /**
+   * Reads @c4Technology, @c4Description and @c4Tags JSDoc tags and the
+   * @C4Component({ ... }) decorator. The decorator takes precedence.
+   */
+  private extractC4Metadata(classDeclaration: ClassDeclaration): Pick<ModuleInfo, 'technology' | 'description' | 'tags'> {
+    const metadata: Pick<ModuleInfo, 'technology' | 'description' | 'tags'> = {};
+
+    for (const jsDoc of classDeclaration.getJsDocs()) {
+      for (const tag of jsDoc.getTags()) {
+        const value = tag.getCommentText()?.trim();
+        if (!value) continue;
+
+        switch (tag.getTagName()) {
+          case 'c4Technology':
+            metadata.technology = value;
+            break;
+          case 'c4Description':
+            metadata.description = value;
+            break;
+          case 'c4Tags':
+            metadata.tags = value.split(/[,\s]+/).filter(t => t.length > 0);
+            break;
+        }
+      }
+    }
+
+    const options = this.resolveObjectLiteral(classDeclaration.getDecorator('C4Component')?.getArguments()[0]);
+    if (options && Node.isObjectLiteralExpression(options)) {
+      const technology = getStringLiteral(this.getPropertyInitializer(options, 'technology'));
+      const description = getStringLiteral(this.getPropertyInitializer(options, 'description'));
+      const tags = this.getArrayElements(options, 'tags')
+        .map(element => getStringLiteral(element))
+        .filter((tag): tag is string => tag !== undefined);
+
+      if (technology !== undefined) metadata.technology = technology;
+      if (description !== undefined) metadata.description = description;
+      if (tags.length > 0) metadata.tags = tags;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Enhancers registered globally from a module, e.g.
+   * { provide: APP_GUARD, useClass: AuthGuard }.
+   */
+  private getGlobalEnhancers(providers: ProviderInfo[], token: string): string[] {
+    return providers
+      .filter(p => p.token === token)
+      .map(p => p.useClass ?? p.useExisting ?? p.factory ?? token);
+  }
+
+  private getTokenName(node: Node): string {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralText();
+    }
+    if (Node.isCallExpression(node) && node.getExpression().getText() === 'forwardRef') {
+      const target = this.unwrapForwardRef(node);
+      if (target) return target.getText();
+    }
+    return node.getText();
+  }
+
+  private mergeProviders(...lists: ProviderInfo[][]): ProviderInfo[] {
+    const providers = new Map<string, ProviderInfo>();
+    for (const provider of lists.flat()) {
+      // Multi-providers such as APP_GUARD can be registered several times
+      const implementation = provider.useClassId ?? provider.useClass ?? provider.useExisting ?? provider.factory ?? '';
+      providers.set(`${provider.tokenId ?? provider.token}:${implementation}`, provider);
+    }
+    return [...providers.values()];
+  }
+
+  private resolveObjectLiteral(expression: Node | undefined): Node | undefined {
+    if (!expression) return undefined;
+
+    if (Node.isParenthesizedExpression(expression) || Node.isAsExpression(expression)) {
+      return this.resolveObjectLiteral(expression.getExpression());
+    }
+
+    if (Node.isIdentifier(expression)) {
+      const declaration = expression.getSymbol()?.getValueDeclaration();
+      if (declaration && Node.isVariableDeclaration(declaration)) {
+        return this.resolveObjectLiteral(declaration.getInitializer());
+      }
+    }
+
+    return expression;
+  }
+
+  private getPropertyInitializer(objectLiteral: ObjectLiteralExpression, propertyName: string): Node | undefined {
     const property = objectLiteral.getProperty(propertyName);
-    if (!property) return [];
+    if (!property) return undefined;
+
+    // Shorthand properties (e.g. `{ providers }`) point at a variable
+    if (Node.isShorthandPropertyAssignment(property)) {
+      return this.resolveObjectLiteral(property.getNameNode());
+    }
+
+    return Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  }
 
-    const initializer = property.getInitializer?.();
+  private getArrayElements(objectLiteral: ObjectLiteralExpression, propertyName: string): Node[] {
+    let initializer = this.getPropertyInitializer(objectLiteral, propertyName);
+    if (initializer && Node.isIdentifier(initializer)) {
+      initializer = this.resolveObjectLiteral(initializer);
+    }
     if (!initializer || !Node.isArrayLiteralExpression(initializer)) return [];
 
-    return initializer.getElements().map((element) => {
+    return initializer.getElements().flatMap((element) => {
+      // Handle spreads of local arrays (e.g., ...providers)
+      if (Node.isSpreadElement(element)) {
+        const spread = this.resolveObjectLiteral(element.getExpression());
+        return spread && Node.isArrayLiteralExpression(spread) ? spread.getElements() : [];
+      }
+      return [element];
+    });
+  }
+
+  private extractArrayPropertyValues(
+    objectLiteral: ObjectLiteralExpression,
+    propertyName: string
+  ): string[] {
+    return this.getArrayElements(objectLiteral, propertyName).map((element) => {
       // Handle identifiers (e.g., UserService)
       if (Node.isIdentifier(element)) {
         return element.getText();
       }
-      
+
       // Handle property access (e.g., TypeOrmModule.forRoot())
       if (Node.isCallExpression(element)) {
         const expression = element.getExpression();
         if (Node.isPropertyAccessExpression(expression)) {
           return expression.getExpression().getText();
         }
+        if (expression.getText() === 'forwardRef') {
+          const target = this.unwrapForwardRef(element);
+          if (target) return target.getText();
+        }
         return expression.getText();
       }
 
@@ -92,4 +581,8 @@ export class ModuleAnalyzer {
       return element.getText();
     });
   }
-}
\ No newline at end of file
+
+  private mergeUnique(...lists: string[][]): string[] {
+    return [...new Set(lists.flat())];
+  }
+}
@@ -0,0 +1,21 @@
+import { Node } from 'ts-morph';
+
+/**
+ * The value assigned to a property of an object literal, e.g. `type` in
+ * `{ type: 'postgres' }`. Shorthand and spread properties have none.
+ */
+export function getInitializer(node: Node | undefined, propertyName: string): Node | undefined {
+  if (!node || !Node.isObjectLiteralExpression(node)) return undefined;
+  const property = node.getProperty(propertyName);
+  return property && Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+}
+
+/**
+ * The text of a string literal or of a template without substitutions.
+ */
+export function getStringLiteral(node: Node | undefined): string | undefined {
+  if (node && (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node))) {
+    return node.getLiteralValue();
+  }
+  return undefined;
+}
@@ -0,0 +1,141 @@
+import {
+  BootstrapInfo,
+  ClassInfo,
+  ControllerInfo,
+  EndpointInfo,
+  EnhancerInfo,
+  MethodInfo,
+  ModuleInfo,
+  PipelineStep,
+  RequestPipeline,
+  RouteInfo,
+} from '../types';
+import { MiddlewareResolver } from './middleware-resolver';
+
+/**
+ * Combines controller routes with the global prefix and versioning settings
+ * into the full HTTP surface of the application.
+ */
+export class RouteAnalyzer {
+  constructor(
+    private classes: ClassInfo[],
+    private bootstrap: BootstrapInfo = {},
+    private modules: ModuleInfo[] = []
+  ) {}
+
+  analyze(): EndpointInfo[] {
+    const endpoints: EndpointInfo[] = [];
+
+    for (const classInfo of this.classes) {
+      if (!classInfo.controller) continue;
+
+      for (const method of classInfo.methods) {
+        if (!method.route) continue;
+
+        const version = method.route.version ?? classInfo.controller.version ?? this.bootstrap.versioning?.defaultVersion;
+        endpoints.push({
+          httpMethod: method.route.httpMethod,
+          path: this.buildPath(classInfo.controller, method.route, version),
+          version,
+          controller: classInfo.name,
+          controllerId: classInfo.id,
+          handler: method.name,
+          moduleName: classInfo.moduleContext,
+          moduleId: classInfo.moduleId,
+          filePath: classInfo.filePath,
+          line: method.line,
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Finds an endpoint by "METHOD /path" (e.g. "GET /api/users/:id") or by
+   * "Controller.handler" (e.g. "UsersController.findOne").
+   */
+  findEndpoint(endpoints: EndpointInfo[], query: string): EndpointInfo | undefined {
+    const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+    return endpoints.find(e =>
+      `${e.httpMethod} ${e.path}`.toLowerCase() === normalized ||
+      `${e.controller}.${e.handler}`.toLowerCase() === normalized
+    );
+  }
+
+  /**
+   * Effective middleware and enhancers for an endpoint, in Nest's execution
+   * order: global, then controller, then method (then parameter, for pipes).
+   * Filters are tried the other way around, from the most specific scope.
+   */
+  getPipeline(endpoint: EndpointInfo): RequestPipeline {
+    const controller = this.classes.find(c => c.id === endpoint.controllerId);
+    const handler = controller?.methods.find(m => m.name === endpoint.handler);
+
+    const collect = (kind: keyof EnhancerInfo): PipelineStep[] => [
+      ...this.getGlobalSteps(kind),
+      ...(controller?.enhancers?.[kind] || []).map(name => ({ name, scope: 'controller' as const })),
+      ...(handler?.enhancers?.[kind] || []).map(name => ({ name, scope: 'method' as const })),
+    ];
+
+    return {
+      endpoint,
+      middleware: controller && handler ? this.getMiddlewareSteps(controller, handler) : [],
+      guards: collect('guards'),
+      interceptors: collect('interceptors'),
+      pipes: [
+        ...collect('pipes'),
+        ...(handler?.parameterPipes || []).map(name => ({ name, scope: 'param' as const })),
+      ],
+      filters: collect('filters').reverse(),
+    };
+  }
+
+  private getMiddlewareSteps(controller: ClassInfo, handler: MethodInfo): PipelineStep[] {
+    const resolver = new MiddlewareResolver(this.classes);
+    const steps: PipelineStep[] = [];
+
+    for (const module of this.modules) {
+      for (const binding of module.middleware || []) {
+        if (!resolver.appliesTo(binding, controller, handler)) continue;
+        steps.push(...binding.middleware.map(name => ({ name, scope: 'module' as const, source: module.name })));
+      }
+    }
+
+    return steps;
+  }
+
+  private getGlobalSteps(kind: keyof EnhancerInfo): PipelineStep[] {
+    const steps: PipelineStep[] = (this.bootstrap.globalEnhancers?.[kind] || []).map(name => ({
+      name,
+      scope: 'global',
+      source: 'main.ts',
+    }));
+
+    for (const module of this.modules) {
+      for (const name of module[kind] || []) {
+        steps.push({ name, scope: 'global', source: module.name });
+      }
+    }
+
+    return steps;
+  }
+
+  private buildPath(controller: ControllerInfo, route: RouteInfo, version?: string): string {
+    const segments = [this.bootstrap.globalPrefix];
+
+    // Only URI versioning shows up in the path; header/media type versioning does not
+    if (version && version !== 'VERSION_NEUTRAL' && this.bootstrap.versioning?.type === 'URI') {
+      segments.push(`${this.bootstrap.versioning.prefix}${version}`);
+    }
+
+    segments.push(controller.path, route.path);
+
+    const path = segments
+      .map(segment => (segment || '').replace(/^\/+|\/+$/g, ''))
+      .filter(segment => segment.length > 0)
+      .join('/');
+
+    return `/${path}`;
+  }
+}
@@ -0,0 +1,72 @@
+import { existsSync } from 'fs';
+import { Project } from 'ts-morph';
+import { SourceFilter } from '../types';
+
+export const DEFAULT_SOURCE_FILTER: SourceFilter = {
+  include: ['src/**/*.ts'],
+  exclude: [],
+};
+
+/**
+ * Adds the files matching the include/exclude globs (relative to the project
+ * root) whose name ends with the given suffix.
+ */
+export function addSourceFiles(project: Project, projectPath: string, filter: SourceFilter, suffix = '.ts'): void {
+  for (const filePath of findSourceFiles(project, projectPath, filter)) {
+    if (filePath.endsWith(suffix)) {
+      project.addSourceFileAtPath(filePath);
+    }
+  }
+}
+
+function findSourceFiles(project: Project, projectPath: string, filter: SourceFilter): string[] {
+  return project.getFileSystem().globSync([
+    ...filter.include.map(glob => `${projectPath}/${glob}`),
+    ...filter.exclude.map(glob => `!${projectPath}/${glob}`),
+  ]);
+}
+
+/**
+ * One ts-morph project holding every source file, shared by the analyzers
+ * in watch mode so files are parsed once and refreshed as they change.
+ */
+export class SourceProject {
+  readonly project: Project;
+
+  constructor(private projectPath: string, private filter: SourceFilter = DEFAULT_SOURCE_FILTER) {
+    this.project = new Project({
+      tsConfigFilePath: `${projectPath}/tsconfig.json`,
+      skipAddingFilesFromTsConfig: true,
+    });
+    addSourceFiles(this.project, projectPath, filter);
+  }
+
+  /**
+   * Reloads changed, added and deleted files. Returns the files whose
+   * analysis may be stale: the changed files and the files importing them.
+   */
+  refresh(filePaths: string[]): Set<string> {
+    const affected = new Set<string>();
+    const sourcePaths = new Set(findSourceFiles(this.project, this.projectPath, this.filter));
+
+    for (const filePath of filePaths) {
+      const sourceFile = this.project.getSourceFile(filePath);
+      if (!sourceFile && !sourcePaths.has(filePath)) continue; // Not a source file, e.g. under dist/
+
+      for (const importer of sourceFile?.getReferencingSourceFiles() ?? []) {
+        affected.add(importer.getFilePath());
+      }
+
+      if (!existsSync(filePath) || !sourcePaths.has(filePath)) {
+        if (sourceFile) this.project.removeSourceFile(sourceFile);
+      } else if (sourceFile) {
+        sourceFile.refreshFromFileSystemSync();
+      } else {
+        this.project.addSourceFileAtPath(filePath);
+      }
+      affected.add(filePath);
+    }
+
+    return affected;
+  }
+}
@@ -0,0 +1,53 @@
+import { relative } from 'path';
+import { ClassDeclaration, Node } from 'ts-morph';
+
+/**
+ * Stable identity of a class: the file that declares it plus its name.
+ */
+export function getClassId(declaration: ClassDeclaration): string {
+  return `${declaration.getSourceFile().getFilePath()}#${declaration.getName() ?? 'default'}`;
+}
+
+/**
+ * An ID with its file path relative to the project root, as written to
+ * reports that are compared between machines. Plain tokens stay as they are.
+ */
+export function toRelativeId(projectPath: string, id: string): string {
+  const separator = id.lastIndexOf('#');
+  return separator < 0 ? id : `${toRelativePath(projectPath, id.slice(0, separator))}${id.slice(separator)}`;
+}
+
+export function toRelativePath(projectPath: string, filePath: string): string {
+  return relative(projectPath, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Follows a class reference (identifier, type reference, property access or
+ * forwardRef(() => X)) through imports, aliases and re-exports to the class
+ * it names.
+ */
+export function resolveClassDeclaration(node: Node | undefined): ClassDeclaration | undefined {
+  if (!node) return undefined;
+
+  if (Node.isTypeReference(node)) {
+    return resolveClassDeclaration(node.getTypeName());
+  }
+  if (Node.isCallExpression(node) && node.getExpression().getText() === 'forwardRef') {
+    const [factory] = node.getArguments();
+    return Node.isArrowFunction(factory) ? resolveClassDeclaration(factory.getBody()) : undefined;
+  }
+  if (Node.isParenthesizedExpression(node)) {
+    return resolveClassDeclaration(node.getExpression());
+  }
+
+  const symbol = node.getSymbol();
+  if (!symbol) return undefined;
+
+  const target = symbol.getAliasedSymbol() ?? symbol;
+  return target.getDeclarations().find(Node.isClassDeclaration);
+}
+
+export function resolveClassId(node: Node | undefined): string | undefined {
+  const declaration = resolveClassDeclaration(node);
+  return declaration ? getClassId(declaration) : undefined;
+}
@@ -0,0 +1,101 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, relative } from 'path';
+import { SourceFilter, WorkspaceInfo, WorkspaceProject } from '../types';
+
+interface NestCliProject {
+  type?: string;
+  root?: string;
+  sourceRoot?: string;
+  entryFile?: string;
+}
+
+interface NestCliConfig extends NestCliProject {
+  monorepo?: boolean;
+  projects?: Record<string, NestCliProject>;
+}
+
+/**
+ * Discovers the apps and libs of a Nest CLI workspace from nest-cli.json.
+ * Projects without one are treated as a single application in src/.
+ */
+export class WorkspaceAnalyzer {
+  constructor(private projectPath: string) {}
+
+  analyze(): WorkspaceInfo {
+    const nestCli = this.readNestCliConfig();
+    const defaultProject: WorkspaceProject = {
+      name: basename(this.projectPath),
+      type: 'application',
+      root: nestCli?.root ?? '.',
+      sourceRoot: this.trimSlashes(nestCli?.sourceRoot ?? 'src'),
+      entryFile: nestCli?.entryFile ?? 'main',
+    };
+
+    if (!nestCli?.monorepo || !nestCli.projects) {
+      return { rootPath: this.projectPath, monorepo: false, projects: [defaultProject] };
+    }
+
+    const projects = Object.entries(nestCli.projects).map(([name, project]): WorkspaceProject => {
+      const root = this.trimSlashes(project.root ?? `apps/${name}`);
+      return {
+        name,
+        type: project.type === 'library' ? 'library' : 'application',
+        root,
+        sourceRoot: this.trimSlashes(project.sourceRoot ?? `${root}/src`),
+        entryFile: project.entryFile ?? (project.type === 'library' ? 'index' : 'main'),
+      };
+    });
+
+    // The top-level sourceRoot points at the default app
+    const defaultApp = projects.find(p => p.sourceRoot === defaultProject.sourceRoot);
+
+    return {
+      rootPath: this.projectPath,
+      monorepo: true,
+      defaultProject: defaultApp?.name,
+      projects,
+    };
+  }
+
+  private readNestCliConfig(): NestCliConfig | undefined {
+    const filePath = `${this.projectPath}/nest-cli.json`;
+    if (!existsSync(filePath)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      console.warn(`Warning: Could not parse ${filePath}:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private trimSlashes(path: string): string {
+    return path.replace(/^\.\//, '').replace(/\/+$/, '');
+  }
+}
+
+export function getWorkspaceSources(workspace: WorkspaceInfo): SourceFilter {
+  return {
+    include: workspace.projects.map(project => `${project.sourceRoot}/**/*.ts`),
+    exclude: [],
+  };
+}
+
+export function findWorkspaceProject(workspace: WorkspaceInfo, filePath: string): WorkspaceProject | undefined {
+  const relativePath = relative(workspace.rootPath, filePath).split('\\').join('/');
+
+  // Prefer the most specific root when project roots are nested
+  return workspace.projects
+    .filter(project => relativePath.startsWith(`${project.sourceRoot}/`) || relativePath.startsWith(`${project.root}/`))
+    .sort((a, b) => b.sourceRoot.length - a.sourceRoot.length)[0];
+}
+
+/**
+ * Entry file of the default app, which holds the bootstrap() call.
+ */
+export function getEntryFile(workspace: WorkspaceInfo): string {
+  const project = workspace.projects.find(p => p.name === workspace.defaultProject)
+    ?? workspace.projects.find(p => p.type === 'application')
+    ?? workspace.projects[0];
+  return `${project.sourceRoot}/${project.entryFile}.ts`;
+}
@@ -0,0 +1,159 @@
+import { mkdirSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { ModuleAnalyzer } from './analyzers/module-analyzer';
+import { ClassAnalyzer } from './analyzers/class-analyzer';
+import { DependencyValidator } from './analyzers/dependency-validator';
+import { CycleDetector } from './analyzers/cycle-detector';
+import { BootstrapAnalyzer } from './analyzers/bootstrap-analyzer';
+import { RouteAnalyzer } from './analyzers/route-analyzer';
+import { WorkspaceAnalyzer, getWorkspaceSources, getEntryFile } from './analyzers/workspace-analyzer';
+import { ExternalSystemAnalyzer } from './analyzers/external-system-analyzer';
+import { MessagingAnalyzer } from './analyzers/messaging-analyzer';
+import { EntityAnalyzer } from './analyzers/entity-analyzer';
+import { DtoAnalyzer } from './analyzers/dto-analyzer';
+import { SourceProject } from './analyzers/source-files';
+import { ComponentDiagramGenerator } from './generators/component-diagram';
+import { C4DiagramGenerator } from './generators/c4-diagram';
+import { ClassDiagramGenerator } from './generators/class-diagram';
+import { RouteDiagramGenerator } from './generators/route-diagram';
+import { MessagingDiagramGenerator } from './generators/messaging-diagram';
+import { GraphQLDiagramGenerator } from './generators/graphql-diagram';
+import { ErdDiagramGenerator } from './generators/erd-diagram';
+import { DtoDiagramGenerator } from './generators/dto-diagram';
+import { getDisplayNames } from './generators/display-names';
+import { toSvgLink, writeFileIfChanged } from './generators/output-files';
+import { loadConfig, getSourceFilter, applyModuleMetadata, NestD2Config } from './config';
+import { DiagramFile, NestD2Plugin, generatePluginDiagrams, getPluginDecorators, transformAnalysis } from './plugins';
+import { AnalysisResult } from './types';
+
+export type DiagramKind = 'component' | 'c4' | 'class' | 'routes' | 'messaging' | 'graphql' | 'erd' | 'dtos';
+
+export interface AnalyzeOptions {
+  projectPath: string;
+  config?: NestD2Config; // Defaults to the project's nest-d2.config.ts or nest-d2.config.json
+  plugins?: NestD2Plugin[]; // Run after the plugins from the config
+}
+
+export interface RenderDiagramsOptions {
+  diagrams?: DiagramKind[]; // Defaults to the component, C4 and class diagrams
+  config?: NestD2Config; // Container title, file names and class diagram options
+  outputDir?: string; // When given, the files are also written there
+  plugins?: NestD2Plugin[];
+}
+
+const DEFAULT_DIAGRAMS: DiagramKind[] = ['component', 'c4', 'class'];
+
+/**
+ * Reads the modules and classes of a NestJS project, parsing its sources
+ * once, then lets the plugins post-process the result.
+ */
+export function analyzeProject(options: AnalyzeOptions): AnalysisResult {
+  const projectPath = resolve(options.projectPath);
+  const config = options.config ?? loadConfig(projectPath).config;
+  const plugins = [...(config.plugins ?? []), ...(options.plugins ?? [])];
+
+  const workspace = new WorkspaceAnalyzer(projectPath).analyze();
+  const sources = getSourceFilter(config, getWorkspaceSources(workspace));
+  const project = new SourceProject(projectPath, sources);
+  const modules = new ModuleAnalyzer(projectPath, sources, workspace, project).analyze();
+  const classes = new ClassAnalyzer(projectPath, sources, project, getPluginDecorators(plugins)).analyze(modules);
+
+  return transformAnalysis({ projectPath, workspace, sources, modules, classes }, plugins);
+}
+
+/**
+ * Generates the D2 source of the requested diagrams and of the plugins'
+ * generators, with the same file names as the CLI. Nothing is prompted:
+ * the container title defaults to the project directory's name.
+ */
+export function renderDiagrams(result: AnalysisResult, options: RenderDiagramsOptions = {}): DiagramFile[] {
+  const { projectPath, workspace, sources, classes } = result;
+  const config = options.config ?? loadConfig(projectPath).config;
+  // Technology and descriptions from the config, as in `generate`
+  const modules = result.modules.map(module => applyModuleMetadata(module, config));
+  const plugins = [...(config.plugins ?? []), ...(options.plugins ?? [])];
+  const diagrams = new Set(options.diagrams ?? DEFAULT_DIAGRAMS);
+  const output = config.output ?? {};
+  const containerTitle = config.containerTitle ?? basename(projectPath);
+  const files: DiagramFile[] = [];
+
+  // External systems, entities and DTOs are read from the sources again
+  let project: SourceProject | undefined;
+  const getProject = () => project ??= new SourceProject(projectPath, sources);
+
+  const componentFile = output.componentDiagram ?? 'component-diagram.d2';
+  if (diagrams.has('component')) {
+    const cycles = new CycleDetector(modules).detectModuleCycles();
+    const componentGen = new ComponentDiagramGenerator(containerTitle, { cycles }, workspace);
+    files.push({ path: componentFile, content: componentGen.generate(modules, true) });
+  }
+
+  if (diagrams.has('c4')) {
+    const externalSystems = new ExternalSystemAnalyzer(projectPath, sources, getProject()).analyze(modules);
+    const containerFile = output.containerDiagram ?? 'container-diagram.d2';
+    const c4Gen = new C4DiagramGenerator(containerTitle, {
+      containerDiagram: toSvgLink(containerFile),
+      componentDiagram: toSvgLink(componentFile),
+    }, workspace);
+    files.push({ path: output.contextDiagram ?? 'system-context-diagram.d2', content: c4Gen.generateSystemContext(modules, externalSystems) });
+    files.push({ path: containerFile, content: c4Gen.generateContainers(modules, externalSystems) });
+  }
+
+  const moduleNames = getDisplayNames(modules);
+  if (diagrams.has('class')) {
+    const classGen = new ClassDiagramGenerator(
+      config.classDiagram?.includeAttributes ?? true,
+      config.classDiagram?.includeMethods ?? true,
+      {
+        issues: new DependencyValidator(modules, classes).validate(),
+        cycles: new CycleDetector(modules, classes).detectProviderCycles(),
+      }
+    );
+    const componentsDir = output.classDiagramsDir ?? 'class-diagrams';
+    files.push({ path: output.classDiagram ?? 'class-diagram-global.d2', content: classGen.generateGlobal(classes, modules) });
+    for (const module of modules) {
+      files.push({ path: `${componentsDir}/${moduleNames.get(module.id)!.key}.d2`, content: classGen.generateForComponent(module, classes, modules) });
+    }
+  }
+
+  if (diagrams.has('routes')) {
+    const bootstrap = new BootstrapAnalyzer(projectPath, getEntryFile(workspace)).analyze();
+    const endpoints = new RouteAnalyzer(classes, bootstrap).analyze();
+    files.push({ path: output.routeDiagram ?? 'route-diagram.d2', content: new RouteDiagramGenerator().generate(endpoints, classes, modules) });
+  }
+
+  if (diagrams.has('messaging')) {
+    const channels = new MessagingAnalyzer(classes).analyze();
+    files.push({ path: output.messagingDiagram ?? 'messaging-diagram.d2', content: new MessagingDiagramGenerator().generate(channels, classes, modules) });
+  }
+
+  if (diagrams.has('graphql')) {
+    files.push({ path: output.graphqlDiagram ?? 'graphql-diagram.d2', content: new GraphQLDiagramGenerator().generate(classes, modules) });
+  }
+
+  if (diagrams.has('erd')) {
+    const entities = new EntityAnalyzer(projectPath, sources, getProject()).analyze();
+    files.push({ path: output.erdDiagram ?? 'erd-diagram.d2', content: new ErdDiagramGenerator().generate(entities, classes, modules) });
+  }
+
+  if (diagrams.has('dtos')) {
+    const dtos = new DtoAnalyzer(projectPath, sources, getProject()).analyze(classes);
+    const dtoGen = new DtoDiagramGenerator();
+    for (const module of modules) {
+      if (!dtos.some(dto => dto.moduleIds.includes(module.id))) continue;
+      files.push({ path: `${output.dtoDiagramsDir ?? 'dto-diagrams'}/${moduleNames.get(module.id)!.key}.d2`, content: dtoGen.generateForModule(module, dtos, classes) });
+    }
+  }
+
+  files.push(...generatePluginDiagrams({ ...result, modules }, plugins));
+
+  if (options.outputDir) {
+    for (const file of files) {
+      const filePath = join(options.outputDir, file.path);
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileIfChanged(filePath, file.content);
+    }
+  }
+
+  return files;
+}
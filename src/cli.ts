@@ -1,24 +1,213 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { writeFileSync, existsSync, mkdirSync } from 'fs';
-import { resolve } from 'path';
+import { writeFileSync, existsSync, mkdirSync, watch } from 'fs';
+import { dirname, resolve, relative, sep } from 'path';
 import { ModuleAnalyzer } from './analyzers/module-analyzer';
 import { ClassAnalyzer } from './analyzers/class-analyzer';
+import { DependencyValidator } from './analyzers/dependency-validator';
+import { CycleDetector } from './analyzers/cycle-detector';
+import { BootstrapAnalyzer } from './analyzers/bootstrap-analyzer';
+import { RouteAnalyzer } from './analyzers/route-analyzer';
+import { WorkspaceAnalyzer, getWorkspaceSources, getEntryFile } from './analyzers/workspace-analyzer';
+import { ExternalSystemAnalyzer } from './analyzers/external-system-analyzer';
+import { MessagingAnalyzer, MessageChannel } from './analyzers/messaging-analyzer';
+import { EntityAnalyzer } from './analyzers/entity-analyzer';
+import { DtoAnalyzer } from './analyzers/dto-analyzer';
+import { DiffAnalyzer, ArchitectureSnapshot } from './analyzers/diff-analyzer';
+import { GitRevisions } from './analyzers/git-revisions';
+import { DependencyGraph } from './analyzers/dependency-graph';
+import { ArchitectureLinter } from './analyzers/architecture-linter';
+import { MetricsAnalyzer, HEATMAP_METRICS, HeatmapMetric } from './analyzers/metrics-analyzer';
+import { FocusAnalyzer, FOCUS_DIRECTIONS, FocusDirection } from './analyzers/focus-analyzer';
+import { SourceProject } from './analyzers/source-files';
+import { ArchitectureGraphBuilder } from './analyzers/architecture-graph';
 import { ComponentDiagramGenerator } from './generators/component-diagram';
+import { C4DiagramGenerator } from './generators/c4-diagram';
 import { ClassDiagramGenerator } from './generators/class-diagram';
+import { RouteDiagramGenerator } from './generators/route-diagram';
+import { PipelineDiagramGenerator } from './generators/pipeline-diagram';
+import { MessagingDiagramGenerator } from './generators/messaging-diagram';
+import { GraphQLDiagramGenerator } from './generators/graphql-diagram';
+import { ErdDiagramGenerator } from './generators/erd-diagram';
+import { DtoDiagramGenerator } from './generators/dto-diagram';
+import { DiffDiagramGenerator } from './generators/diff-diagram';
+import { DiffSummaryGenerator } from './generators/diff-summary';
+import { LintReportGenerator } from './generators/lint-report';
+import { MetricsReportGenerator } from './generators/metrics-report';
+import { MermaidDiagramGenerator } from './generators/mermaid-diagram';
+import { PlantUmlDiagramGenerator } from './generators/plantuml-diagram';
+import { DotDiagramGenerator } from './generators/dot-diagram';
+import { GraphDiagramGenerator, writeClassDiagrams } from './generators/graph-views';
+import { toSvgLink, withExtension, writeFileIfChanged } from './generators/output-files';
+import { D2Renderer, RENDER_FORMATS, RENDER_LAYOUTS, RenderFormat, RenderLayout, RenderOptions } from './renderers/d2-renderer';
+import { MetadataStore } from './metadata';
+import { analyzeProject } from './api';
+import { generatePluginDiagrams, getPluginDecorators, transformAnalysis } from './plugins';
+import { loadLintRules, LintRules } from './lint-rules';
+import { loadConfig, getSourceFilter, getOutputDir, applyModuleMetadata, LoadedConfig, NestD2Config } from './config';
 import {
   promptForInteractiveMode,
   promptForDefaultTechnology,
   enrichModuleWithMetadata,
   promptForContainerTitle,
-  parseExistingD2File,
   promptForClassDiagramOptions,
+  promptForEndpoint,
 } from './interactive';
-import { ModuleInfo } from './types';
+import { ClassInfo, CycleInfo, ModuleInfo } from './types';
 
 const program = new Command();
 
+const OUTPUT_FORMATS = ['d2', 'json', 'mermaid', 'plantuml', 'dot'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Diagrams only D2 can draw, and rendering, which runs d2
+const D2_ONLY_OPTIONS = ['routes', 'messaging', 'graphql', 'erd', 'dtos', 'heatmap', 'render'];
+
+function printCycleSummary(cycles: CycleInfo[]): void {
+  if (cycles.length === 0) return;
+
+  console.log(`\nFound ${cycles.length} circular dependencies:`);
+  for (const cycle of cycles) {
+    const members = cycle.members.join(', ');
+    if (cycle.guard === 'guarded') {
+      console.log(`  ✓ ${cycle.kind} cycle between ${members} (guarded with forwardRef)`);
+      continue;
+    }
+
+    if (cycle.guard === 'partial') {
+      console.log(`  ⚠ ${cycle.kind} cycle between ${members} (only partially guarded with forwardRef)`);
+    } else {
+      console.log(`  ✗ ${cycle.kind} cycle between ${members} (not guarded with forwardRef)`);
+    }
+    // From the whole component, since its members can form several loops
+    for (const [from, to] of cycle.unguardedEdges) {
+      console.log(`      unguarded: ${from} -> ${to}`);
+    }
+  }
+}
+
+function printMessagingIssues(channels: MessageChannel[]): void {
+  const unmatched = channels.filter(channel => channel.status !== 'ok');
+  if (unmatched.length === 0) return;
+
+  const names = { request: 'Message pattern', event: 'Event', job: 'Queue' };
+  console.log(`\nFound ${unmatched.length} unmatched message channels:`);
+  for (const channel of unmatched) {
+    const name = `${names[channel.style]} "${channel.channel}"`;
+    if (channel.status === 'unhandled') {
+      const producers = channel.producers.map(p => `${p.classInfo.name}.${p.message.method}`);
+      console.log(`  ⚠ ${name} is sent by ${[...new Set(producers)].join(', ')} but has no handler`);
+    } else {
+      const consumers = channel.consumers.map(c => `${c.classInfo.name}.${c.message.method}`);
+      console.log(`  ⚠ ${name} is handled by ${[...new Set(consumers)].join(', ')} but nothing sends it`);
+    }
+  }
+}
+
+function parseRenderOptions(options: { render: string; theme?: string; layout?: string; sketch?: boolean }): RenderOptions {
+  const formats = options.render.split(',').map(format => format.trim().toLowerCase()).filter(format => format);
+  const unknownFormats = formats.filter(format => !RENDER_FORMATS.includes(format as RenderFormat));
+  if (formats.length === 0 || unknownFormats.length > 0) {
+    throw new Error(`Unsupported render format: ${unknownFormats.join(', ') || '(none)'} (expected ${RENDER_FORMATS.join(', ')})`);
+  }
+
+  if (options.layout && !RENDER_LAYOUTS.includes(options.layout as RenderLayout)) {
+    throw new Error(`Unsupported layout: ${options.layout} (expected ${RENDER_LAYOUTS.join(' or ')})`);
+  }
+
+  return {
+    formats: formats as RenderFormat[],
+    theme: options.theme,
+    layout: options.layout as RenderLayout,
+    sketch: options.sketch,
+  };
+}
+
+// The formats drawing the component and class diagrams from the analysis graph
+function createGraphGenerator(format: OutputFormat, includeAttributes = true, includeMethods = true): GraphDiagramGenerator | undefined {
+  switch (format) {
+    case 'mermaid':
+      return new MermaidDiagramGenerator(includeAttributes, includeMethods);
+    case 'plantuml':
+      return new PlantUmlDiagramGenerator(includeAttributes, includeMethods);
+    case 'dot':
+      return new DotDiagramGenerator(includeAttributes, includeMethods);
+    default:
+      return undefined;
+  }
+}
+
+function loadProjectConfig(projectPath: string, configPath?: string, log = console.log): LoadedConfig {
+  try {
+    const loaded = loadConfig(projectPath, configPath);
+    if (loaded.filePath) {
+      log(`Using config: ${relative(process.cwd(), loaded.filePath)}`);
+    }
+    return loaded;
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function analyzeSnapshot(projectPath: string, config: NestD2Config): ArchitectureSnapshot {
+  const { modules, classes } = analyzeProject({ projectPath, config });
+  return { rootPath: projectPath, modules, classes };
+}
+
+/**
+ * Modules whose component class diagram can change with the files: those
+ * declared in them or owning a changed class, and those injecting one.
+ */
+function getAffectedModuleIds(filePaths: Set<string>, modules: ModuleInfo[], classes: ClassInfo[]): Set<string> {
+  const graph = new DependencyGraph(modules, classes);
+  const changedClassIds = new Set(classes.filter(c => filePaths.has(c.filePath)).map(c => c.id));
+  const moduleIds = new Set(modules.filter(m => filePaths.has(m.filePath)).map(m => m.id));
+
+  for (const classInfo of classes) {
+    if (!classInfo.moduleId) continue;
+    const injectsChanged = classInfo.dependencies.some(dep => {
+      const target = graph.resolve(classInfo, dep).target;
+      return target !== undefined && changedClassIds.has(target.id);
+    });
+    if (changedClassIds.has(classInfo.id) || injectsChanged) {
+      moduleIds.add(classInfo.moduleId);
+    }
+  }
+
+  return moduleIds;
+}
+
+/**
+ * Calls onChange with the TypeScript files changed under the project,
+ * batching the bursts of events a single save produces. Runs never overlap.
+ */
+function watchSources(projectPath: string, onChange: (filePaths: string[]) => Promise<void>): void {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  watch(projectPath, { recursive: true }, (_event, fileName) => {
+    if (!fileName || !fileName.endsWith('.ts') || fileName.split(sep).includes('node_modules')) return;
+
+    // ts-morph paths always use forward slashes
+    pending.add(resolve(projectPath, fileName).replace(/\\/g, '/'));
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const filePaths = [...pending];
+      pending.clear();
+      running = running.then(() => onChange(filePaths));
+    }, 200);
+  });
+}
+
+// An explicit -o wins over the config file, which wins over the default
+function resolveOutputDir(output: string, command: Command, loadedConfig: LoadedConfig): string {
+  const configured = command.getOptionValueSource('output') === 'default' ? getOutputDir(loadedConfig) : undefined;
+  return configured ?? resolve(output);
+}
+
 program
   .name('nest-d2')
   .description('Generate D2 diagrams from NestJS projects')
@@ -29,13 +218,26 @@ program
   .description('Generate component and class diagrams')
   .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
   .option('-o, --output <path>', 'Output directory for diagrams', './diagrams')
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
   .option('--component-only', 'Generate only component diagram')
   .option('--class-only', 'Generate only class diagram')
+  .option('--routes', 'Also generate the HTTP route map diagram')
+  .option('--messaging', 'Also generate the microservice, event and queue messaging diagram')
+  .option('--graphql', 'Also generate the GraphQL schema diagram')
+  .option('--erd', 'Also generate the entity relationship diagram (TypeORM, Mongoose, Prisma)')
+  .option('--dtos', 'Also generate per-module diagrams of request and response DTOs with their validation')
+  .option('--format <format>', 'Output format: d2, json (the analysis graph), mermaid, plantuml or dot', 'd2')
+  .option('--heatmap <metric>', 'Colour the modules of the component diagram by instability, afferent, efferent or size')
   .option('-i, --interactive', 'Enable interactive mode for adding metadata')
-  .action(async (options) => {
+  .option('--no-input', 'Never prompt; fail if a required answer is missing from the config file')
+  .option('--render <formats>', 'Render the diagrams with d2 (comma-separated: svg,png,pdf)')
+  .option('--theme <id>', 'D2 theme ID used when rendering')
+  .option('--layout <engine>', 'D2 layout engine used when rendering (dagre or elk)')
+  .option('--sketch', 'Render diagrams in sketch mode')
+  .option('-w, --watch', 'Keep running and regenerate the affected diagrams when source files change')
+  .action(async (options, command: Command) => {
     try {
       const projectPath = resolve(options.project);
-      const outputDir = resolve(options.output);
 
       console.log(`Analyzing NestJS project at: ${projectPath}`);
 
@@ -45,90 +247,790 @@ program
         process.exit(1);
       }
 
+      const loadedConfig = loadProjectConfig(projectPath, options.config);
+      const { config } = loadedConfig;
+      const outputDir = resolveOutputDir(options.output, command, loadedConfig);
+      const workspace = new WorkspaceAnalyzer(projectPath).analyze();
+      const sources = getSourceFilter(config, getWorkspaceSources(workspace));
+      if (workspace.monorepo) {
+        console.log(`Found Nest CLI workspace with ${workspace.projects.length} projects`);
+      }
+      const canPrompt: boolean = options.input;
+      const plugins = config.plugins ?? [];
+
+      const format = options.format as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(format)) {
+        console.error(`Error: Unsupported format: ${format} (expected ${OUTPUT_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      const d2OnlyOption = D2_ONLY_OPTIONS.find(name => options[name]);
+      if (format !== 'd2' && d2OnlyOption) {
+        console.error(`Error: --${d2OnlyOption} only works with --format d2`);
+        process.exit(1);
+      }
+      const heatmapMetric = options.heatmap as HeatmapMetric | undefined;
+      if (heatmapMetric && !HEATMAP_METRICS.includes(heatmapMetric)) {
+        console.error(`Error: Unsupported heatmap metric: ${heatmapMetric} (expected ${HEATMAP_METRICS.join(', ')})`);
+        process.exit(1);
+      }
+
+      // Without prompts, everything required must come from the config
+      if (!canPrompt && !options.classOnly && format !== 'json' && !config.containerTitle) {
+        console.error('Error: --no-input requires "containerTitle" in the config file (or use --class-only)');
+        process.exit(1);
+      }
+
+      // Fail before analysis if rendering was requested but can't happen
+      let renderer: D2Renderer | undefined;
+      if (options.render) {
+        let renderOptions: RenderOptions;
+        try {
+          renderOptions = parseRenderOptions({ ...options, theme: options.theme ?? config.theme });
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        const executable = D2Renderer.findExecutable(projectPath);
+        if (!executable) {
+          console.error('Error: d2 executable not found in node_modules/.bin or PATH (see https://d2lang.com/tour/install)');
+          process.exit(1);
+        }
+        renderer = new D2Renderer(executable, renderOptions);
+      }
+
       // Create output directory if it doesn't exist
       if (!existsSync(outputDir)) {
         mkdirSync(outputDir, { recursive: true });
       }
 
-      // Check for interactive mode
-      let isInteractive = options.interactive;
-      let defaultTechnology = '';
-      let containerTitle = '';
-      let modules: ModuleInfo[] = [];
+      // In watch mode the analyzers share one project and cache their results per file
+      const sourceProject = options.watch ? new SourceProject(projectPath, sources) : undefined;
+      const moduleAnalyzer = new ModuleAnalyzer(projectPath, sources, workspace, sourceProject);
+      let classAnalyzer: ClassAnalyzer | undefined;
+
+      // Answers are only asked for once, reruns in watch mode reuse them
+      let isInteractive = options.interactive ?? config.interactive;
+      let defaultTechnology: string | undefined;
+      let containerTitle: string | undefined;
+      let classOptions: { includeAttributes: boolean; includeMethods: boolean } | undefined;
+      let previousModuleIds: string | undefined;
+
+      // Writes every diagram, or after a change only what the changed files can affect
+      const generate = async (changedFiles?: Set<string>): Promise<boolean> => {
+        const isRerun = changedFiles !== undefined;
+        const writtenFiles: string[] = [];
+
+        // Analyze modules first (needed for both diagrams)
+        console.log('\nAnalyzing modules...');
+        let modules = moduleAnalyzer.analyze();
+        console.log(`Found ${modules.length} modules`);
+
+        // Classes are analyzed once, when a diagram needs them
+        let classes: ClassInfo[] | undefined;
+        const analyzeClasses = (): ClassInfo[] => {
+          if (!classes) {
+            classAnalyzer ??= new ClassAnalyzer(projectPath, sources, sourceProject, getPluginDecorators(plugins));
+            classes = classAnalyzer.analyze(modules);
+            console.log(`Found ${classes.length} classes`);
+          }
+          return classes;
+        };
+
+        // Plugins post-process the whole analysis, so classes can't wait until a diagram needs them
+        if (plugins.some(plugin => plugin.transform)) {
+          ({ modules, classes } = transformAnalysis({ projectPath, workspace, sources, modules, classes: analyzeClasses() }, plugins));
+        }
+
+        const moduleCycles = new CycleDetector(modules).detectModuleCycles();
+        printCycleSummary(moduleCycles);
 
-      // Analyze modules first (needed for both diagrams)
-      console.log('\nAnalyzing modules...');
-      const moduleAnalyzer = new ModuleAnalyzer(projectPath);
-      modules = moduleAnalyzer.analyze();
-      console.log(`Found ${modules.length} modules`);
+        const saveDiagram = (filePath: string, content: string): void => {
+          writeFileIfChanged(filePath, content);
+          writtenFiles.push(filePath);
+        };
 
-      // Generate component diagram
-      if (!options.classOnly) {
-        containerTitle = await promptForContainerTitle();
+        const buildGraph = () => new ArchitectureGraphBuilder({ projectPath, workspace, sources, modules, classes: analyzeClasses() }).build();
 
-        if (!isInteractive) {
-          isInteractive = await promptForInteractiveMode();
+        // The JSON graph holds everything the diagrams are drawn from, so it replaces them
+        if (format === 'json') {
+          const graphPath = `${outputDir}/${config.output?.graphFile ?? 'architecture-graph.json'}`;
+          saveDiagram(graphPath, `${JSON.stringify(buildGraph(), null, 2)}\n`);
+          console.log(`\n✓ Architecture graph saved to: ${graphPath}`);
+          return true;
+        }
+
+        // Generate component diagram
+        if (!options.classOnly) {
+          containerTitle ??= config.containerTitle ?? await promptForContainerTitle();
+
+          if (isInteractive === undefined) {
+            isInteractive = canPrompt ? await promptForInteractiveMode() : false;
+          }
+
+          const componentPath = `${outputDir}/${config.output?.componentDiagram ?? 'component-diagram.d2'}`;
+
+          if (isInteractive) {
+            defaultTechnology ??= config.defaultTechnology ?? (canPrompt ? await promptForDefaultTechnology() : '');
+            
+            // Load metadata saved by earlier runs
+            const metadataPath = `${outputDir}/${config.output?.metadataFile ?? 'component-metadata.json'}`;
+            const metadataStore = MetadataStore.load(metadataPath, projectPath, modules);
+
+            // Older versions only kept metadata inside the component diagram
+            if (!metadataStore.exists && existsSync(componentPath)) {
+              const migrated = metadataStore.importFromD2(componentPath, containerTitle, modules);
+              if (migrated > 0) {
+                console.log(`\n✓ Migrated metadata for ${migrated} modules from ${componentPath}`);
+              }
+            }
+            
+            console.log('\n=== Adding metadata to modules ===');
+            const enrichedModules = [];
+            for (const module of modules) {
+              // Annotations in the source count as answers, the config overrides them
+              const configured = config.modules?.[module.name];
+              const enriched = await enrichModuleWithMetadata(
+                module, 
+                defaultTechnology,
+                metadataStore.get(module),
+                {
+                  technology: configured?.technology ?? module.technology,
+                  description: configured?.description ?? module.description,
+                },
+                canPrompt && !isRerun
+              );
+              metadataStore.set(enriched);
+              enrichedModules.push(enriched);
+            }
+            modules = enrichedModules;
+
+            metadataStore.save();
+            console.log(`✓ Module metadata saved to: ${metadataPath}`);
+          } else {
+            // Interactive mode only decides about prompting, the config applies either way
+            modules = modules.map(module => applyModuleMetadata(module, config));
+          }
+          
+          // C4 levels 1 and 2 are only drawn in D2
+          const graphGen = createGraphGenerator(format);
+          if (graphGen) {
+            const graphComponentPath = withExtension(componentPath, graphGen.extension);
+            saveDiagram(graphComponentPath, graphGen.generateComponents(buildGraph(), containerTitle));
+            console.log(`\n✓ Component diagram saved to: ${graphComponentPath}`);
+          } else {
+            // Modules colored by one of their metrics, e.g. instability
+            let heatmap: { metric: HeatmapMetric; values: Map<string, number> } | undefined;
+            if (heatmapMetric) {
+              const values = new Map<string, number>();
+              for (const moduleMetrics of new MetricsAnalyzer(modules, analyzeClasses()).analyze().modules) {
+                const value = MetricsAnalyzer.getHeatmapValue(moduleMetrics, heatmapMetric);
+                if (value !== undefined) values.set(moduleMetrics.moduleId, value);
+              }
+              heatmap = { metric: heatmapMetric, values };
+            }
+
+            const componentGen = new ComponentDiagramGenerator(containerTitle, { cycles: moduleCycles, heatmap }, workspace);
+            // Don't show nesting in interactive mode (only show tech + desc)
+            const componentD2 = componentGen.generate(modules, !isInteractive);
+          
+            saveDiagram(componentPath, componentD2);
+            console.log(`\n✓ Component diagram saved to: ${componentPath}`);
+
+            // C4 levels 1 and 2, linking down to the component diagram
+            const externalSystems = new ExternalSystemAnalyzer(projectPath, sources, sourceProject).analyze(modules);
+            console.log(`\nFound ${externalSystems.length} external systems`);
+
+            const contextFile = config.output?.contextDiagram ?? 'system-context-diagram.d2';
+            const containerFile = config.output?.containerDiagram ?? 'container-diagram.d2';
+            const c4Gen = new C4DiagramGenerator(containerTitle, {
+              containerDiagram: toSvgLink(containerFile),
+              componentDiagram: toSvgLink(config.output?.componentDiagram ?? 'component-diagram.d2'),
+            }, workspace);
+
+            const contextPath = `${outputDir}/${contextFile}`;
+            saveDiagram(contextPath, c4Gen.generateSystemContext(modules, externalSystems));
+            console.log(`✓ System context diagram saved to: ${contextPath}`);
+
+            const containerPath = `${outputDir}/${containerFile}`;
+            saveDiagram(containerPath, c4Gen.generateContainers(modules, externalSystems));
+            console.log(`✓ Container diagram saved to: ${containerPath}`);
+          }
         }
 
-        if (isInteractive) {
-          defaultTechnology = await promptForDefaultTechnology();
+        // Generate class diagrams
+        if (!options.componentOnly) {
+          console.log('\nAnalyzing classes...');
           
-          // Check for existing component diagram and parse metadata
-          const existingDiagramPath = `${outputDir}/component-diagram.d2`;
-          const existingMetadataMap = parseExistingD2File(existingDiagramPath, containerTitle);
+          // Prompt for class diagram options
+          classOptions ??= canPrompt
+            ? await promptForClassDiagramOptions(config.classDiagram)
+            : {
+                includeAttributes: config.classDiagram?.includeAttributes ?? true,
+                includeMethods: config.classDiagram?.includeMethods ?? true,
+              };
           
-          if (existingMetadataMap.size > 0) {
-            console.log('\n✓ Found existing component diagram with metadata');
+          const classes = analyzeClasses();
+
+          const issues = new DependencyValidator(modules, classes).validate();
+          if (issues.length > 0) {
+            console.warn(`⚠ ${issues.length} unresolved dependencies (highlighted in red, run "nest-d2 check" for details)`);
           }
+
+          const providerCycles = new CycleDetector(modules, classes).detectProviderCycles();
+          printCycleSummary(providerCycles);
           
-          console.log('\n=== Adding metadata to modules ===');
-          const enrichedModules = [];
-          for (const module of modules) {
-            const existingMetadata = existingMetadataMap.get(module.name);
-            const enriched = await enrichModuleWithMetadata(
-              module, 
-              defaultTechnology,
-              existingMetadata
+          const classPaths = {
+            globalDiagram: config.output?.classDiagram ?? 'class-diagram-global.d2',
+            componentsDir: config.output?.classDiagramsDir ?? 'class-diagrams',
+          };
+
+          const graphGen = createGraphGenerator(format, classOptions.includeAttributes, classOptions.includeMethods);
+          if (graphGen) {
+            // Unchanged diagrams are not rewritten, so reruns in watch mode simply write them all
+            writtenFiles.push(...writeClassDiagrams(graphGen, buildGraph(), outputDir, classPaths));
+            console.log(`✓ Global class diagram saved to: ${outputDir}/${withExtension(classPaths.globalDiagram, graphGen.extension)}`);
+            console.log(`✓ Component class diagrams saved to: ${outputDir}/${classPaths.componentsDir}/`);
+          } else {
+            const classGen = new ClassDiagramGenerator(
+              classOptions.includeAttributes,
+              classOptions.includeMethods,
+              { issues, cycles: providerCycles }
             );
-            enrichedModules.push(enriched);
+
+            // Added or removed modules can change every diagram's names
+            const moduleIds = modules.map(module => module.id).join('\n');
+            const componentModuleIds = changedFiles && moduleIds === previousModuleIds
+              ? getAffectedModuleIds(changedFiles, modules, classes)
+              : undefined;
+            previousModuleIds = moduleIds;
+            writtenFiles.push(...classGen.generateAll(classes, modules, outputDir, classPaths, componentModuleIds));
+
+            console.log(`✓ Global class diagram saved to: ${outputDir}/${classPaths.globalDiagram}`);
+            if (componentModuleIds) {
+              console.log(`✓ Component class diagrams of ${componentModuleIds.size} affected modules saved to: ${outputDir}/${classPaths.componentsDir}/`);
+            } else {
+              console.log(`✓ Component class diagrams saved to: ${outputDir}/${classPaths.componentsDir}/`);
+            }
+          }
+        }
+
+        // Generate route map
+        if (options.routes) {
+          console.log('\nAnalyzing routes...');
+          const bootstrap = new BootstrapAnalyzer(projectPath, getEntryFile(workspace)).analyze();
+          const endpoints = new RouteAnalyzer(analyzeClasses(), bootstrap).analyze();
+          console.log(`Found ${endpoints.length} endpoints`);
+
+          const routeD2 = new RouteDiagramGenerator().generate(endpoints, analyzeClasses(), modules);
+          const routePath = `${outputDir}/${config.output?.routeDiagram ?? 'route-diagram.d2'}`;
+          saveDiagram(routePath, routeD2);
+          console.log(`✓ Route diagram saved to: ${routePath}`);
+        }
+
+        // Generate messaging diagram
+        if (options.messaging) {
+          console.log('\nAnalyzing messaging...');
+          const channels = new MessagingAnalyzer(analyzeClasses()).analyze();
+          console.log(`Found ${channels.length} message channels`);
+          printMessagingIssues(channels);
+
+          const messagingD2 = new MessagingDiagramGenerator().generate(channels, analyzeClasses(), modules);
+          const messagingPath = `${outputDir}/${config.output?.messagingDiagram ?? 'messaging-diagram.d2'}`;
+          saveDiagram(messagingPath, messagingD2);
+          console.log(`✓ Messaging diagram saved to: ${messagingPath}`);
+        }
+
+        // Generate GraphQL schema diagram
+        if (options.graphql) {
+          console.log('\nAnalyzing GraphQL schema...');
+          const graphqlClasses = analyzeClasses();
+          const typeCount = graphqlClasses.filter(c => c.graphqlType).length;
+          const resolverCount = graphqlClasses.filter(c => c.resolver).length;
+          console.log(`Found ${typeCount} GraphQL types and ${resolverCount} resolvers`);
+
+          const graphqlD2 = new GraphQLDiagramGenerator().generate(graphqlClasses, modules);
+          const graphqlPath = `${outputDir}/${config.output?.graphqlDiagram ?? 'graphql-diagram.d2'}`;
+          saveDiagram(graphqlPath, graphqlD2);
+          console.log(`✓ GraphQL diagram saved to: ${graphqlPath}`);
+        }
+
+        // Generate entity relationship diagram
+        if (options.erd) {
+          console.log('\nAnalyzing entities...');
+          const entities = new EntityAnalyzer(projectPath, sources, sourceProject).analyze();
+          console.log(`Found ${entities.length} entities`);
+
+          const erdD2 = new ErdDiagramGenerator().generate(entities, analyzeClasses(), modules);
+          const erdPath = `${outputDir}/${config.output?.erdDiagram ?? 'erd-diagram.d2'}`;
+          saveDiagram(erdPath, erdD2);
+          console.log(`✓ Entity relationship diagram saved to: ${erdPath}`);
+        }
+
+        // Generate DTO diagrams
+        if (options.dtos) {
+          console.log('\nAnalyzing DTOs...');
+          const dtos = new DtoAnalyzer(projectPath, sources, sourceProject).analyze(analyzeClasses());
+          console.log(`Found ${dtos.length} DTOs`);
+
+          const dtoDiagramsDir = config.output?.dtoDiagramsDir ?? 'dto-diagrams';
+          writtenFiles.push(...new DtoDiagramGenerator().generateAll(dtos, analyzeClasses(), modules, outputDir, dtoDiagramsDir));
+          console.log(`✓ DTO diagrams saved to: ${outputDir}/${dtoDiagramsDir}/`);
+        }
+
+        // Generate plugin diagrams
+        if (plugins.some(plugin => plugin.generators?.length)) {
+          console.log('\nRunning plugin generators...');
+          for (const file of generatePluginDiagrams({ projectPath, workspace, sources, modules, classes: analyzeClasses() }, plugins)) {
+            const filePath = `${outputDir}/${file.path}`;
+            mkdirSync(dirname(filePath), { recursive: true });
+            saveDiagram(filePath, file.content);
+            console.log(`✓ ${file.path} saved to: ${filePath}`);
           }
-          modules = enrichedModules;
-        }
-        
-        const componentGen = new ComponentDiagramGenerator(containerTitle);
-        // Don't show nesting in interactive mode (only show tech + desc)
-        const componentD2 = componentGen.generate(modules, !isInteractive);
-        
-        const componentPath = `${outputDir}/component-diagram.d2`;
-        writeFileSync(componentPath, componentD2);
-        console.log(`\n✓ Component diagram saved to: ${componentPath}`);
-      }
-
-      // Generate class diagrams
-      if (!options.componentOnly) {
-        console.log('\nAnalyzing classes...');
-        
-        // Prompt for class diagram options
-        const classOptions = await promptForClassDiagramOptions();
-        
-        const classAnalyzer = new ClassAnalyzer(projectPath);
-        const classes = classAnalyzer.analyze(modules);
-        
-        console.log(`Found ${classes.length} classes`);
-        
+        }
+
+        // Render diagrams, after a change only those whose source was rewritten
+        if (renderer) {
+          console.log(isRerun ? '\nRendering changed diagrams...' : `\nRendering ${writtenFiles.length} diagrams...`);
+          const results = await renderer.renderAll(writtenFiles, isRerun);
+          const failures = results.filter(result => result.error);
+
+          for (const result of results) {
+            if (result.error) {
+              console.error(`✗ ${relative(process.cwd(), result.input)}: ${result.error}`);
+            } else {
+              console.log(`✓ Rendered ${relative(process.cwd(), result.output)}`);
+            }
+          }
+
+          if (failures.length > 0) {
+            console.error(`\n✗ ${failures.length} of ${results.length} renders failed`);
+            return false;
+          }
+        }
+
+        return true;
+      };
+
+      if (!await generate() && !sourceProject) {
+        process.exit(1);
+      }
+
+      if (!sourceProject) {
+        console.log('\nDone! 🎉');
+        return;
+      }
+
+      console.log(`\nWatching ${projectPath} for changes (press Ctrl+C to stop)...`);
+      watchSources(projectPath, async filePaths => {
+        // Includes the refresh, which throws when a file is removed before it is read
+        try {
+          const changedFiles = sourceProject.refresh(filePaths);
+          if (changedFiles.size === 0) return;
+
+          console.log(`\nChanged: ${filePaths.map(filePath => relative(projectPath, filePath)).join(', ')}`);
+          moduleAnalyzer.invalidate(changedFiles);
+          classAnalyzer?.invalidate(changedFiles);
+          await generate(changedFiles);
+          console.log('\nWatching for changes...');
+        } catch (error) {
+          console.error('Error generating diagrams:', error);
+        }
+      });
+    } catch (error) {
+      console.error('Error generating diagrams:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('check')
+  .description('Check that every injected dependency can be resolved by Nest')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .action((options) => {
+    try {
+      const projectPath = resolve(options.project);
+
+      if (!existsSync(`${projectPath}/tsconfig.json`)) {
+        console.error('Error: tsconfig.json not found in project root');
+        process.exit(1);
+      }
+
+      const { modules, classes } = analyzeProject({ projectPath, config: loadProjectConfig(projectPath, options.config).config });
+      const issues = new DependencyValidator(modules, classes).validate();
+
+      printCycleSummary(new CycleDetector(modules, classes).detect());
+      // Handlers may live in another service, so these are only warnings
+      printMessagingIssues(new MessagingAnalyzer(classes).analyze());
+
+      if (issues.length === 0) {
+        console.log(`✓ All dependencies resolved (${modules.length} modules, ${classes.length} classes)`);
+        return;
+      }
+
+      for (const issue of issues) {
+        const location = `${relative(process.cwd(), issue.filePath)}:${issue.line ?? 1}`;
+        console.error(`${location} - ${issue.message}`);
+      }
+      console.error(`\n✗ Found ${issues.length} unresolved dependencies`);
+      process.exit(1);
+    } catch (error) {
+      console.error('Error checking dependencies:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lint')
+  .description('Check module imports and injections against the architecture rules in nest-d2.rules.json')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-o, --output <path>', 'Output directory for diagrams', './diagrams')
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .option('-r, --rules <path>', 'Path to rules file (default: nest-d2.rules.json in the project)')
+  .option('--format <format>', 'Report format: text, json or sarif', 'text')
+  .option('--report <path>', 'Write the JSON or SARIF report to a file instead of stdout')
+  .option('--diagrams', 'Also write the class diagrams with the violations highlighted')
+  .action((options, command: Command) => {
+    try {
+      const projectPath = resolve(options.project);
+      const format: string = options.format;
+
+      if (!['text', 'json', 'sarif'].includes(format)) {
+        console.error(`Error: Unsupported report format: ${format} (expected text, json or sarif)`);
+        process.exit(1);
+      }
+      if (options.report && format === 'text') {
+        console.error('Error: --report needs --format json or sarif');
+        process.exit(1);
+      }
+      if (!existsSync(`${projectPath}/tsconfig.json`)) {
+        console.error('Error: tsconfig.json not found in project root');
+        process.exit(1);
+      }
+
+      // A JSON or SARIF report on stdout must be the only output there
+      const log = format !== 'text' && !options.report ? console.error : console.log;
+
+      const loadedConfig = loadProjectConfig(projectPath, options.config, log);
+      let rules: LintRules;
+      try {
+        const loaded = loadLintRules(projectPath, options.rules);
+        rules = loaded.rules;
+        log(`Using rules: ${relative(process.cwd(), loaded.filePath)}`);
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(1);
+      }
+
+      const { config } = loadedConfig;
+      const { modules, classes } = analyzeProject({ projectPath, config });
+      const violations = new ArchitectureLinter(projectPath, modules, classes, rules).lint();
+      const errorCount = violations.filter(violation => violation.severity === 'error').length;
+
+      if (format === 'text') {
+        for (const violation of violations) {
+          const location = `${relative(process.cwd(), violation.filePath)}:${violation.line ?? 1}`;
+          const print = violation.severity === 'error' ? console.error : console.warn;
+          print(`${location} - ${violation.severity}: ${violation.message} [${violation.rule}]`);
+        }
+      } else {
+        const reportGen = new LintReportGenerator(projectPath, rules);
+        const report = format === 'sarif' ? reportGen.generateSarif(violations) : reportGen.generateJson(violations);
+        if (options.report) {
+          const reportPath = resolve(options.report);
+          mkdirSync(dirname(reportPath), { recursive: true });
+          writeFileSync(reportPath, report);
+          log(`✓ ${format === 'sarif' ? 'SARIF' : 'JSON'} report saved to: ${reportPath}`);
+        } else {
+          process.stdout.write(report);
+        }
+      }
+
+      // Class diagrams with the offending injections in orange
+      if (options.diagrams) {
+        const outputDir = resolveOutputDir(options.output, command, loadedConfig);
         const classGen = new ClassDiagramGenerator(
-          classOptions.includeAttributes,
-          classOptions.includeMethods
+          config.classDiagram?.includeAttributes ?? true,
+          config.classDiagram?.includeMethods ?? true,
+          {
+            issues: new DependencyValidator(modules, classes).validate(),
+            cycles: new CycleDetector(modules, classes).detectProviderCycles(),
+            violations,
+          }
         );
-        classGen.generateAll(classes, modules, outputDir);
-        
-        console.log(`✓ Global class diagram saved to: ${outputDir}/class-diagram-global.d2`);
-        console.log(`✓ Component class diagrams saved to: ${outputDir}/class-diagrams/`);
+        const classPaths = {
+          globalDiagram: config.output?.classDiagram ?? 'class-diagram-global.d2',
+          componentsDir: config.output?.classDiagramsDir ?? 'class-diagrams',
+        };
+        classGen.generateAll(classes, modules, outputDir, classPaths);
+        log(`✓ Class diagrams with violations saved to: ${outputDir}/`);
       }
 
-      console.log('\nDone! 🎉');
+      if (violations.length === 0) {
+        log(`✓ No architecture rule violations (${modules.length} modules, ${classes.length} classes)`);
+        return;
+      }
+      log(`\n${errorCount > 0 ? '✗' : '⚠'} Found ${errorCount} errors and ${violations.length - errorCount} warnings`);
+      if (errorCount > 0) {
+        process.exit(1);
+      }
     } catch (error) {
-      console.error('Error generating diagrams:', error);
+      console.error('Error linting architecture:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('metrics')
+  .description('Report module coupling, instability, unused exports and imports, and constructor injections per class')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .option('--format <format>', 'Report format: table or json', 'table')
+  .option('--top <n>', 'Classes listed in the table, by injection count', '10')
+  .option('--max-injections <n>', 'Flag classes injecting more dependencies than this', '7')
+  .action((options) => {
+    try {
+      const projectPath = resolve(options.project);
+      const format: string = options.format;
+      const top = Number(options.top);
+      const maxInjections = Number(options.maxInjections);
+
+      if (!['table', 'json'].includes(format)) {
+        console.error(`Error: Unsupported report format: ${format} (expected table or json)`);
+        process.exit(1);
+      }
+      if (!Number.isInteger(top) || top < 0 || !Number.isInteger(maxInjections) || maxInjections < 0) {
+        console.error('Error: --top and --max-injections must be non-negative integers');
+        process.exit(1);
+      }
+      if (!existsSync(`${projectPath}/tsconfig.json`)) {
+        console.error('Error: tsconfig.json not found in project root');
+        process.exit(1);
+      }
+
+      // A JSON report on stdout must be the only output there
+      const log = format === 'json' ? console.error : console.log;
+
+      const { config } = loadProjectConfig(projectPath, options.config, log);
+      const { modules, classes } = analyzeProject({ projectPath, config });
+      const metrics = new MetricsAnalyzer(modules, classes).analyze();
+      const reportGen = new MetricsReportGenerator(projectPath, modules, classes);
+
+      if (format === 'json') {
+        process.stdout.write(reportGen.generateJson(metrics, { top, maxInjections }));
+      } else {
+        console.log(reportGen.generateTable(metrics, { top, maxInjections }));
+      }
+    } catch (error) {
+      console.error('Error computing metrics:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('pipeline [endpoint]')
+  .description('Generate a sequence diagram of the middleware, guards, interceptors, pipes and filters for an endpoint ("GET /api/users/:id" or "UsersController.findOne")')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-o, --output <path>', 'Output directory for diagrams', './diagrams')
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .option('--list', 'List every endpoint with its effective guards instead')
+  .option('--no-input', 'Never prompt; fail if no endpoint is given')
+  .action(async (endpointQuery: string | undefined, options, command: Command) => {
+    try {
+      const projectPath = resolve(options.project);
+
+      if (!existsSync(`${projectPath}/tsconfig.json`)) {
+        console.error('Error: tsconfig.json not found in project root');
+        process.exit(1);
+      }
+
+      const loadedConfig = loadProjectConfig(projectPath, options.config);
+      const outputDir = resolveOutputDir(options.output, command, loadedConfig);
+
+      if (!options.input && !endpointQuery && !options.list) {
+        console.error('Error: --no-input requires an endpoint argument (e.g. "GET /api/users/:id")');
+        process.exit(1);
+      }
+
+      const { workspace, modules, classes } = analyzeProject({ projectPath, config: loadedConfig.config });
+      const bootstrap = new BootstrapAnalyzer(projectPath, getEntryFile(workspace)).analyze();
+      const routeAnalyzer = new RouteAnalyzer(classes, bootstrap, modules);
+      const endpoints = routeAnalyzer.analyze();
+
+      if (endpoints.length === 0) {
+        console.error('Error: no controller endpoints found');
+        process.exit(1);
+      }
+
+      if (options.list) {
+        for (const endpoint of endpoints) {
+          const guards = routeAnalyzer.getPipeline(endpoint).guards.map(g => g.name);
+          const protection = guards.length > 0 ? guards.join(', ') : '(no guards)';
+          console.log(`${`${endpoint.httpMethod} ${endpoint.path}`.padEnd(40)} ${protection}`);
+        }
+        return;
+      }
+
+      const endpoint = endpointQuery
+        ? routeAnalyzer.findEndpoint(endpoints, endpointQuery)
+        : await promptForEndpoint(endpoints);
+
+      if (!endpoint) {
+        console.error(`Error: endpoint not found: ${endpointQuery ?? '(none selected)'}`);
+        process.exit(1);
+      }
+
+      const pipelineD2 = new PipelineDiagramGenerator().generate(routeAnalyzer.getPipeline(endpoint));
+      const pipelinesDir = `${outputDir}/pipelines`;
+      if (!existsSync(pipelinesDir)) {
+        mkdirSync(pipelinesDir, { recursive: true });
+      }
+
+      const pipelinePath = `${pipelinesDir}/${endpoint.controller}.${endpoint.handler}.d2`;
+      writeFileSync(pipelinePath, pipelineD2);
+      console.log(`✓ Pipeline diagram saved to: ${pipelinePath}`);
+    } catch (error) {
+      console.error('Error generating pipeline diagram:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('focus <target>')
+  .description('Generate a class diagram of what a class or module transitively injects and what injects it ("UsersService" or "src/users/users.service.ts#UsersService")')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-o, --output <path>', 'Output directory for diagrams', './diagrams')
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .option('--depth <n>', 'Injection hops to follow from the target', '2')
+  .option('--direction <direction>', 'up (what injects the target), down (what it injects) or both', 'both')
+  .action((targetQuery: string, options, command: Command) => {
+    try {
+      const projectPath = resolve(options.project);
+      const depth = Number(options.depth);
+      const direction = options.direction as FocusDirection;
+
+      if (!Number.isInteger(depth) || depth < 0) {
+        console.error('Error: --depth must be a non-negative integer');
+        process.exit(1);
+      }
+      if (!FOCUS_DIRECTIONS.includes(direction)) {
+        console.error(`Error: Unsupported direction: ${direction} (expected ${FOCUS_DIRECTIONS.join(', ')})`);
+        process.exit(1);
+      }
+      if (!existsSync(`${projectPath}/tsconfig.json`)) {
+        console.error('Error: tsconfig.json not found in project root');
+        process.exit(1);
+      }
+
+      const loadedConfig = loadProjectConfig(projectPath, options.config);
+      const { config } = loadedConfig;
+      const outputDir = resolveOutputDir(options.output, command, loadedConfig);
+
+      const { modules, classes } = analyzeProject({ projectPath, config });
+      const focusAnalyzer = new FocusAnalyzer(modules, classes);
+      const targets = focusAnalyzer.find(targetQuery);
+
+      if (targets.length === 0) {
+        console.error(`Error: no class or module named ${targetQuery}`);
+        process.exit(1);
+      }
+      if (targets.length > 1) {
+        console.error(`Error: ${targetQuery} is ambiguous, use one of:`);
+        for (const target of targets) {
+          const item = target.kind === 'class' ? target.classInfo : target.module;
+          console.error(`  ${relative(projectPath, item.filePath).replace(/\\/g, '/')}#${item.name} (${target.kind})`);
+        }
+        process.exit(1);
+      }
+
+      const [target] = targets;
+      const focus = focusAnalyzer.focus(target, depth, direction);
+      const name = target.kind === 'class' ? target.classInfo.name : target.module.name;
+      const moduleCount = new Set(focus.classes.map(c => c.moduleId).filter(Boolean)).size;
+      console.log(`Found ${focus.classes.length - focus.roots.length} classes in ${moduleCount} modules within depth ${depth} (${direction})`);
+
+      const classGen = new ClassDiagramGenerator(
+        config.classDiagram?.includeAttributes ?? true,
+        config.classDiagram?.includeMethods ?? true,
+        {
+          issues: new DependencyValidator(modules, classes).validate(),
+          cycles: new CycleDetector(modules, classes).detectProviderCycles(),
+        }
+      );
+      const focusD2 = classGen.generateFocused(focus, `${name} (${direction}, depth ${depth})`, classes, modules);
+
+      const focusDir = `${outputDir}/focus`;
+      if (!existsSync(focusDir)) {
+        mkdirSync(focusDir, { recursive: true });
+      }
+
+      const focusPath = `${focusDir}/${name}.d2`;
+      writeFileSync(focusPath, focusD2);
+      console.log(`✓ Focus diagram saved to: ${focusPath}`);
+    } catch (error) {
+      console.error('Error generating focus diagram:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Compare modules, providers, imports and dependencies between two git revisions')
+  .option('-p, --project <path>', 'Path to NestJS project', process.cwd())
+  .option('-o, --output <path>', 'Output directory for diagrams', './diagrams')
+  .option('-c, --config <path>', 'Path to config file (default: nest-d2.config.ts or nest-d2.config.json in the project)')
+  .requiredOption('--base <ref>', 'Git revision to compare against (e.g. main)')
+  .option('--head <ref>', 'Git revision with the changes (default: the working tree)')
+  .action((options, command: Command) => {
+    try {
+      const projectPath = resolve(options.project);
+      const loadedConfig = loadProjectConfig(projectPath, options.config);
+      const { config } = loadedConfig;
+      const outputDir = resolveOutputDir(options.output, command, loadedConfig);
+      const head: string = options.head ?? 'working tree';
+
+      // Both revisions are analyzed with the current config
+      let base: ArchitectureSnapshot;
+      let changed: ArchitectureSnapshot;
+      let revisions: GitRevisions | undefined;
+      try {
+        revisions = new GitRevisions(projectPath);
+        const snapshot = (ref: string, path: string): ArchitectureSnapshot => {
+          if (!existsSync(`${path}/tsconfig.json`)) {
+            throw new Error(`tsconfig.json not found in project root at ${ref}`);
+          }
+          console.log(`Analyzing ${ref}...`);
+          return analyzeSnapshot(path, config);
+        };
+        base = snapshot(options.base, revisions.checkout(options.base));
+        changed = snapshot(head, options.head ? revisions.checkout(options.head) : projectPath);
+      } catch (error) {
+        // process.exit() skips finally blocks, so the worktrees are removed first
+        revisions?.cleanup();
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(1);
+      }
+      revisions.cleanup();
+
+      const diff = new DiffAnalyzer(base, changed).analyze();
+      const count = (items: { status: string }[], status: string) => items.filter(item => item.status === status).length;
+      console.log(`\nModules: +${count(diff.modules, 'added')} -${count(diff.modules, 'removed')} ~${count(diff.modules, 'changed')}`);
+      console.log(`Providers: +${count(diff.providers, 'added')} -${count(diff.providers, 'removed')} ~${count(diff.providers, 'changed')}`);
+      console.log(`Edges: +${count(diff.edges, 'added')} -${count(diff.edges, 'removed')}`);
+
+      if (!existsSync(outputDir)) {
+        mkdirSync(outputDir, { recursive: true });
+      }
+
+      const diagramPath = `${outputDir}/${config.output?.diffDiagram ?? 'architecture-diff.d2'}`;
+      writeFileSync(diagramPath, new DiffDiagramGenerator().generate(diff, options.base, head));
+      console.log(`\n✓ Diff diagram saved to: ${diagramPath}`);
+
+      const summaryPath = `${outputDir}/${config.output?.diffSummary ?? 'architecture-diff.md'}`;
+      writeFileSync(summaryPath, new DiffSummaryGenerator().generate(diff, options.base, head));
+      console.log(`✓ Diff summary saved to: ${summaryPath}`);
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
       process.exit(1);
     }
   });
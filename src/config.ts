@@ -0,0 +1,222 @@
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, resolve } from 'path';
+import { ts } from 'ts-morph';
+import { ModuleInfo, SourceFilter } from './types';
+import { DEFAULT_SOURCE_FILTER } from './analyzers/source-files';
+import { NestD2Plugin } from './plugins';
+
+export const CONFIG_FILE_NAMES = ['nest-d2.config.ts', 'nest-d2.config.json'];
+
+export interface NestD2Config {
+  containerTitle?: string;
+  interactive?: boolean; // Add technology/description metadata, like -i
+  defaultTechnology?: string;
+  modules?: Record<string, { technology?: string; description?: string }>;
+  classDiagram?: {
+    includeAttributes?: boolean;
+    includeMethods?: boolean;
+  };
+  include?: string[]; // Source globs relative to the project root
+  exclude?: string[];
+  output?: {
+    dir?: string; // Relative to the config file
+    componentDiagram?: string; // File names inside the output directory
+    contextDiagram?: string;
+    containerDiagram?: string;
+    classDiagram?: string;
+    classDiagramsDir?: string;
+    routeDiagram?: string;
+    messagingDiagram?: string;
+    graphqlDiagram?: string;
+    erdDiagram?: string;
+    dtoDiagramsDir?: string;
+    diffDiagram?: string;
+    diffSummary?: string; // Markdown summary written by `diff`
+    graphFile?: string; // JSON written by `generate --format json`
+    metadataFile?: string; // Module technology/description from interactive mode
+  };
+  theme?: string; // D2 theme ID used when rendering
+  plugins?: NestD2Plugin[]; // Only from nest-d2.config.ts, since they hold functions
+}
+
+export interface LoadedConfig {
+  config: NestD2Config;
+  filePath?: string;
+}
+
+type FieldType = 'string' | 'boolean' | 'string[]' | 'object' | 'object[]';
+
+const SCHEMA: Record<string, FieldType> = {
+  containerTitle: 'string',
+  interactive: 'boolean',
+  defaultTechnology: 'string',
+  modules: 'object',
+  classDiagram: 'object',
+  'classDiagram.includeAttributes': 'boolean',
+  'classDiagram.includeMethods': 'boolean',
+  include: 'string[]',
+  exclude: 'string[]',
+  output: 'object',
+  'output.dir': 'string',
+  'output.componentDiagram': 'string',
+  'output.contextDiagram': 'string',
+  'output.containerDiagram': 'string',
+  'output.classDiagram': 'string',
+  'output.classDiagramsDir': 'string',
+  'output.routeDiagram': 'string',
+  'output.messagingDiagram': 'string',
+  'output.graphqlDiagram': 'string',
+  'output.erdDiagram': 'string',
+  'output.dtoDiagramsDir': 'string',
+  'output.diffDiagram': 'string',
+  'output.diffSummary': 'string',
+  'output.graphFile': 'string',
+  'output.metadataFile': 'string',
+  theme: 'string',
+  plugins: 'object[]',
+};
+
+/**
+ * Loads the config file given with --config, or the first of
+ * nest-d2.config.ts / nest-d2.config.json found in the project root.
+ */
+export function loadConfig(projectPath: string, configPath?: string): LoadedConfig {
+  const filePath = configPath
+    ? resolve(configPath)
+    : CONFIG_FILE_NAMES.map(name => `${projectPath}/${name}`).find(path => existsSync(path));
+
+  if (!filePath) {
+    return { config: {} };
+  }
+  if (!existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  const raw = filePath.endsWith('.ts') ? loadTypeScriptConfig(filePath) : parseJsonConfig(filePath);
+  return { config: validateConfig(raw, filePath), filePath };
+}
+
+export function validateConfig(raw: unknown, filePath: string): NestD2Config {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid config in ${filePath}: expected an object`);
+  }
+
+  const check = (value: Record<string, unknown>, prefix: string) => {
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const type = SCHEMA[path];
+
+      if (!type) {
+        errors.push(`unknown option "${path}"`);
+      } else if (!hasType(fieldValue, type)) {
+        errors.push(`"${path}" must be ${type.endsWith('[]') ? `an array of ${type.slice(0, -2)}s` : `a ${type}`}`);
+      } else if (type === 'object' && path !== 'modules') {
+        check(fieldValue as Record<string, unknown>, path);
+      }
+    }
+  };
+  check(raw, '');
+
+  // Module metadata is keyed by module name
+  if (isObject(raw.modules)) {
+    for (const [moduleName, metadata] of Object.entries(raw.modules)) {
+      if (!isObject(metadata)) {
+        errors.push(`"modules.${moduleName}" must be an object`);
+        continue;
+      }
+      for (const [key, value] of Object.entries(metadata)) {
+        if (key !== 'technology' && key !== 'description') {
+          errors.push(`unknown option "modules.${moduleName}.${key}"`);
+        } else if (typeof value !== 'string') {
+          errors.push(`"modules.${moduleName}.${key}" must be a string`);
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(raw.plugins)) {
+    raw.plugins.forEach((plugin, index) => {
+      if (isObject(plugin) && typeof plugin.name !== 'string') {
+        errors.push(`"plugins[${index}].name" must be a string`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return raw as NestD2Config;
+}
+
+export function getSourceFilter(config: NestD2Config, defaults: SourceFilter = DEFAULT_SOURCE_FILTER): SourceFilter {
+  return {
+    include: config.include ?? defaults.include,
+    exclude: config.exclude ?? defaults.exclude,
+  };
+}
+
+/**
+ * Module metadata from the config, over the module's own annotations.
+ * Modules without a technology get `defaultTechnology`.
+ */
+export function applyModuleMetadata(module: ModuleInfo, config: NestD2Config): ModuleInfo {
+  const configured = config.modules?.[module.name];
+  return {
+    ...module,
+    technology: configured?.technology ?? module.technology ?? config.defaultTechnology,
+    description: configured?.description ?? module.description,
+  };
+}
+
+/**
+ * Output directory from the config, resolved against the config file.
+ */
+export function getOutputDir({ config, filePath }: LoadedConfig): string | undefined {
+  if (!config.output?.dir) return undefined;
+  return filePath ? resolve(dirname(filePath), config.output.dir) : resolve(config.output.dir);
+}
+
+function parseJsonConfig(filePath: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+function loadTypeScriptConfig(filePath: string): unknown {
+  const { outputText } = ts.transpileModule(readFileSync(filePath, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} as Record<string, unknown> };
+  try {
+    new Function('module', 'exports', 'require', outputText)(module, module.exports, createRequire(filePath));
+  } catch (error) {
+    throw new Error(`Could not load ${filePath}: ${(error as Error).message}`);
+  }
+
+  return module.exports.default ?? module.exports;
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object':
+      return isObject(value);
+    case 'object[]':
+      return Array.isArray(value) && value.every(isObject);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,13 @@
+export interface C4ComponentOptions {
+  technology?: string;
+  description?: string;
+  tags?: string[];
+}
+
+/**
+ * Documents a module for the component diagram. It does nothing at runtime;
+ * nest-d2 reads the options statically, so they must be literals.
+ */
+export function C4Component(_options: C4ComponentOptions): ClassDecorator {
+  return () => undefined;
+}
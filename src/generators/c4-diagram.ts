@@ -0,0 +1,259 @@
+import { ExternalSystemInfo, ModuleInfo, WorkspaceInfo } from '../types';
+import { DependencyGraph } from '../analyzers/dependency-graph';
+import { findWorkspaceProject } from '../analyzers/workspace-analyzer';
+import { openMarkdownNode } from './markdown-blocks';
+
+export interface C4DiagramLinks {
+  containerDiagram?: string; // Opened from the system in the context diagram
+  componentDiagram?: string; // Opened from each container in the container diagram
+}
+
+const SYSTEM_KINDS: Record<ExternalSystemInfo['kind'], { title: string; className: string; relation: string }> = {
+  database: { title: 'Database', className: 'external-database', relation: 'reads from and writes to' },
+  api: { title: 'External API', className: 'external-system', relation: 'calls' },
+  'message-broker': { title: 'Message Broker', className: 'external-queue', relation: 'sends messages via' },
+  queue: { title: 'Queue', className: 'external-queue', relation: 'adds jobs to' },
+};
+
+interface Container {
+  key: string;
+  label: string;
+  moduleIds: Set<string>; // Modules compiled into the container, including imported libs
+  project?: string;
+}
+
+/**
+ * C4 levels above the component diagram: the system in its context (L1) and
+ * the NestJS apps it is made of (L2).
+ */
+export class C4DiagramGenerator {
+  constructor(
+    private containerTitle: string,
+    private links: C4DiagramLinks = {},
+    private workspace?: WorkspaceInfo // Monorepos get one container per app
+  ) {}
+
+  generateSystemContext(modules: ModuleInfo[], systems: ExternalSystemInfo[]): string {
+    const lines: string[] = [];
+    const systemKey = this.getSystemKey();
+
+    lines.push('# NestJS System Context Diagram');
+    lines.push('');
+    this.addPreamble(lines);
+
+    if (modules.some(m => m.controllers.length > 0)) {
+      this.addPerson(lines);
+      lines.push(`user -> ${systemKey}: uses`);
+      lines.push('');
+    }
+
+    openMarkdownNode(lines, systemKey, [
+      `  ## ${this.containerTitle}`,
+      `  **[Software System]**`,
+    ]);
+    lines.push('  class: [system]');
+    if (this.links.containerDiagram) {
+      lines.push(`  link: ${this.links.containerDiagram}`);
+    }
+    lines.push('}');
+    lines.push('');
+
+    for (const system of systems) {
+      this.addExternalSystem(lines, system);
+      lines.push(`${systemKey} -> ${this.getExternalSystemKey(system)}: ${SYSTEM_KINDS[system.kind].relation}`);
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  generateContainers(modules: ModuleInfo[], systems: ExternalSystemInfo[]): string {
+    const lines: string[] = [];
+    const systemKey = this.getSystemKey();
+    const containers = this.getContainers(modules);
+
+    lines.push('# NestJS Container Diagram');
+    lines.push('');
+    this.addPreamble(lines);
+
+    openMarkdownNode(lines, systemKey, [
+      `  ## ${this.containerTitle}`,
+      `  **[Software System]**`,
+    ]);
+    lines.push('  class: [system-expanded]');
+    lines.push('}');
+    lines.push('');
+
+    for (const container of containers) {
+      openMarkdownNode(lines, `${systemKey}.${container.key}`, [
+        `  ## ${container.label}`,
+        `  **[Container: NestJS]**`,
+      ]);
+      lines.push('  class: [container]');
+      if (this.links.componentDiagram) {
+        lines.push(`  link: ${this.links.componentDiagram}`);
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Only apps that expose controllers are used directly
+    const servingContainers = containers.filter(container =>
+      modules.some(m => container.moduleIds.has(m.id) && m.controllers.length > 0)
+    );
+    if (servingContainers.length > 0) {
+      this.addPerson(lines);
+      for (const container of servingContainers) {
+        lines.push(`user -> ${systemKey}.${container.key}: uses (HTTP)`);
+      }
+      lines.push('');
+    }
+
+    for (const system of systems) {
+      this.addExternalSystem(lines, system);
+      for (const container of this.getUsingContainers(system, containers, modules)) {
+        lines.push(`${systemKey}.${container.key} -> ${this.getExternalSystemKey(system)}: ${SYSTEM_KINDS[system.kind].relation}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * A single app is one container; in a monorepo every application is a
+   * container that also contains the libs its modules import.
+   */
+  private getContainers(modules: ModuleInfo[]): Container[] {
+    if (!this.workspace?.monorepo) {
+      return [{
+        key: 'app',
+        label: this.containerTitle,
+        moduleIds: new Set(modules.map(m => m.id)),
+      }];
+    }
+
+    const graph = new DependencyGraph(modules, []);
+    return this.workspace.projects
+      .filter(project => project.type === 'application' && modules.some(m => m.project === project.name))
+      .map(project => {
+        const moduleIds = new Set<string>();
+        const queue = modules.filter(m => m.project === project.name);
+
+        // Follow imports into libs
+        while (queue.length > 0) {
+          const module = queue.pop()!;
+          if (moduleIds.has(module.id)) continue;
+          moduleIds.add(module.id);
+
+          for (const importedName of module.imports) {
+            const imported = graph.resolveImport(module, importedName);
+            if (imported) queue.push(imported);
+          }
+        }
+
+        return { key: this.sanitizeName(project.name), label: project.name, moduleIds, project: project.name };
+      });
+  }
+
+  private getUsingContainers(system: ExternalSystemInfo, containers: Container[], modules: ModuleInfo[]): Container[] {
+    if (containers.length <= 1) return containers;
+
+    return containers.filter(container => system.usages.some(usage => {
+      if (usage.moduleId) return container.moduleIds.has(usage.moduleId);
+
+      // Calls outside any registered class count for the project the file is in
+      const project = this.workspace && findWorkspaceProject(this.workspace, usage.filePath);
+      if (!project) return false;
+      return project.type === 'application'
+        ? container.project === project.name
+        : modules.some(m => m.project === project.name && container.moduleIds.has(m.id));
+    }));
+  }
+
+  private addExternalSystem(lines: string[], system: ExternalSystemInfo): void {
+    const kind = SYSTEM_KINDS[system.kind];
+
+    openMarkdownNode(lines, this.getExternalSystemKey(system), [
+      `  ## ${system.name}`,
+      `  **[${kind.title}: ${system.technology}]**`,
+      ...(system.description ? ['', `  ${system.description}`] : []),
+    ]);
+    lines.push(`  class: [${kind.className}]`);
+    lines.push(`  tooltip: "Inferred from ${[...new Set(system.usages.map(u => u.source))].join(', ')}"`);
+    lines.push('}');
+  }
+
+  private addPerson(lines: string[]): void {
+    lines.push('user: |md');
+    lines.push('  ## User');
+    lines.push('  **[Person]**');
+    lines.push('| {');
+    lines.push('  class: [person]');
+    lines.push('}');
+  }
+
+  private addPreamble(lines: string[]): void {
+    lines.push('direction: right');
+    lines.push('');
+    lines.push('vars: {');
+    lines.push('  d2-config: {');
+    lines.push('    theme-id: 303');
+    lines.push('  }');
+    lines.push('}');
+    lines.push('');
+    lines.push('classes: {');
+    lines.push('  person: {');
+    lines.push('    shape: person');
+    lines.push('    style.fill: "#08427B"');
+    lines.push('  }');
+    lines.push('  system: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#1061B0"');
+    lines.push('    style.border-radius: 32');
+    lines.push('  }');
+    lines.push('  system-expanded: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 32');
+    lines.push('    style.stroke-dash: 3');
+    lines.push('    label.near: bottom-left');
+    lines.push('    style.stroke: "#1061B0"');
+    lines.push('    style.font-color: "#1061B0"');
+    lines.push('  }');
+    lines.push('  container: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#23A2D9"');
+    lines.push('    style.border-radius: 32');
+    lines.push('  }');
+    lines.push('  external-system: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#8C8496"');
+    lines.push('    style.border-radius: 32');
+    lines.push('  }');
+    lines.push('  external-database: {');
+    lines.push('    shape: cylinder');
+    lines.push('    style.fill: "#8C8496"');
+    lines.push('  }');
+    lines.push('  external-queue: {');
+    lines.push('    shape: queue');
+    lines.push('    style.fill: "#8C8496"');
+    lines.push('  }');
+    lines.push('}');
+    lines.push('');
+  }
+
+  private getSystemKey(): string {
+    return this.sanitizeName(this.containerTitle.replace(/ /g, ''));
+  }
+
+  private getExternalSystemKey(system: ExternalSystemInfo): string {
+    return this.sanitizeName(system.id);
+  }
+
+  private sanitizeName(name: string): string {
+    // Remove special characters and make valid D2 identifier
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1'); // D2 identifiers can't start with numbers
+  }
+}
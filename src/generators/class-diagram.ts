@@ -1,36 +1,79 @@
-import { ClassInfo, ModuleInfo } from '../types';
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
+import { ClassInfo, CycleInfo, DependencyInfo, DependencyIssue, LintViolation, ModuleInfo } from '../types';
+import { DependencyGraph, ResolvedDependency } from '../analyzers/dependency-graph';
+import { MiddlewareResolver } from '../analyzers/middleware-resolver';
+import { FocusResult } from '../analyzers/focus-analyzer';
+import { DisplayName, getDisplayNames } from './display-names';
+import { writeFileIfChanged } from './output-files';
+import { mkdirSync, existsSync } from 'fs';
+
+export interface ClassDiagramAnnotations {
+  issues?: DependencyIssue[]; // Unresolved dependencies, highlighted in red
+  cycles?: CycleInfo[]; // Provider injection cycles, drawn in magenta
+  violations?: LintViolation[]; // Injections breaking `nest-d2 lint` rules, drawn in orange
+}
+
+export interface ClassDiagramPaths {
+  globalDiagram: string; // Relative to the output directory
+  componentsDir: string;
+}
 
 export class ClassDiagramGenerator {
   private includeAttributes: boolean;
   private includeMethods: boolean;
-
-  constructor(includeAttributes: boolean = true, includeMethods: boolean = true) {
+  private annotations: ClassDiagramAnnotations;
+  private displayNames = new Map<string, DisplayName>(); // By class and module ID
+
+  constructor(
+    includeAttributes: boolean = true,
+    includeMethods: boolean = true,
+    annotations: ClassDiagramAnnotations = {}
+  ) {
     this.includeAttributes = includeAttributes;
     this.includeMethods = includeMethods;
+    this.annotations = annotations;
   }
 
-  generateAll(classes: ClassInfo[], modules: ModuleInfo[], outputDir: string): void {
+  /**
+   * Writes the global diagram and the per-component diagrams, or only the
+   * listed modules' component diagrams when moduleIds is given.
+   */
+  generateAll(
+    classes: ClassInfo[],
+    modules: ModuleInfo[],
+    outputDir: string,
+    paths: ClassDiagramPaths = { globalDiagram: 'class-diagram-global.d2', componentsDir: 'class-diagrams' },
+    moduleIds?: Set<string>
+  ): string[] {
+    const writtenFiles: string[] = [];
+
     // Create class-diagrams subdirectory
-    const classDiagramsDir = `${outputDir}/class-diagrams`;
+    const classDiagramsDir = `${outputDir}/${paths.componentsDir}`;
     if (!existsSync(classDiagramsDir)) {
       mkdirSync(classDiagramsDir, { recursive: true });
     }
 
     // Generate global diagram
     const globalD2 = this.generateGlobal(classes, modules);
-    writeFileSync(`${outputDir}/class-diagram-global.d2`, globalD2);
+    const globalPath = `${outputDir}/${paths.globalDiagram}`;
+    writeFileIfChanged(globalPath, globalD2);
+    writtenFiles.push(globalPath);
 
     // Generate per-component diagrams
     for (const module of modules) {
+      if (moduleIds && !moduleIds.has(module.id)) continue;
       const componentD2 = this.generateForComponent(module, classes, modules);
-      const sanitizedModuleName = this.sanitizeName(module.name);
-      writeFileSync(`${classDiagramsDir}/${sanitizedModuleName}.d2`, componentD2);
+      const componentPath = `${classDiagramsDir}/${this.getDisplayName(module).key}.d2`;
+      writeFileIfChanged(componentPath, componentD2);
+      writtenFiles.push(componentPath);
     }
+
+    return writtenFiles;
   }
 
   generateGlobal(classes: ClassInfo[], modules: ModuleInfo[]): string {
     const lines: string[] = [];
+    const graph = new DependencyGraph(modules, classes);
+    this.displayNames = new Map([...getDisplayNames(classes), ...getDisplayNames(modules)]);
     
     lines.push('# NestJS Class Diagram - Global');
     lines.push('');
@@ -44,63 +87,56 @@ export class ClassDiagramGenerator {
     const ungrouped: ClassInfo[] = [];
 
     for (const classInfo of classes) {
-      if (classInfo.moduleContext) {
-        if (!moduleMap.has(classInfo.moduleContext)) {
-          moduleMap.set(classInfo.moduleContext, []);
+      if (classInfo.moduleId) {
+        if (!moduleMap.has(classInfo.moduleId)) {
+          moduleMap.set(classInfo.moduleId, []);
         }
-        moduleMap.get(classInfo.moduleContext)!.push(classInfo);
+        moduleMap.get(classInfo.moduleId)!.push(classInfo);
       } else {
         ungrouped.push(classInfo);
       }
     }
 
-    // Create expanded containers for each module
-    for (const [moduleName, moduleClasses] of moduleMap) {
-      const sanitizedModuleName = this.sanitizeName(moduleName);
-      
-      lines.push(`${sanitizedModuleName}: ${moduleName} {`);
-      lines.push('  class: [container-expanded]');
-      lines.push('');
-
-      for (const classInfo of moduleClasses) {
-        this.addClassNode(lines, classInfo, '  ');
+    // Group injection tokens by the module that provides them
+    const tokensByModule = this.groupTokensByModule(this.collectTokenNodes(classes, graph));
+    for (const moduleId of tokensByModule.keys()) {
+      if (moduleId && !moduleMap.has(moduleId)) {
+        moduleMap.set(moduleId, []);
       }
+    }
 
-      lines.push('}');
-      lines.push('');
+    // Create expanded containers for each module
+    for (const [moduleId, moduleClasses] of moduleMap) {
+      const module = modules.find(m => m.id === moduleId);
+      if (!module) continue;
+      this.addModuleContainer(lines, module, moduleClasses, tokensByModule.get(moduleId) || []);
     }
 
-    // Add ungrouped classes
+    // Add ungrouped classes and tokens
     for (const classInfo of ungrouped) {
       this.addClassNode(lines, classInfo, '');
     }
+    for (const resolved of tokensByModule.get('') || []) {
+      this.addTokenNode(lines, resolved, '');
+    }
 
     // Add all edges with full paths
-    for (const classInfo of classes) {
-      const className = this.sanitizeName(classInfo.name);
-      const sourceFullPath = classInfo.moduleContext 
-        ? `${this.sanitizeName(classInfo.moduleContext)}.${className}`
-        : className;
-      
-      for (const dep of classInfo.dependencies) {
-        const depClassName = this.sanitizeName(dep.type);
-        const depClass = classes.find(c => c.name === dep.type);
-        if (!depClass) continue;
-        
-        const targetFullPath = depClass.moduleContext
-          ? `${this.sanitizeName(depClass.moduleContext)}.${depClassName}`
-          : depClassName;
-        
-        const style = dep.isOptional ? ' {style.stroke-dash: 3}' : '';
-        lines.push(`${sourceFullPath} -> ${targetFullPath}: depends on${style}`);
-      }
-    }
+    const classPath = (classInfo: ClassInfo) => {
+      const module = modules.find(m => m.id === classInfo.moduleId);
+      return module
+        ? `${this.getDisplayName(module).key}.${this.getDisplayName(classInfo).key}`
+        : this.getDisplayName(classInfo).key;
+    };
+    this.addDependencyEdges(lines, classes, graph, classPath);
+    this.addMiddlewareEdges(lines, modules, classes, classPath);
 
     return lines.join('\n');
   }
 
   generateForComponent(module: ModuleInfo, allClasses: ClassInfo[], allModules: ModuleInfo[]): string {
     const lines: string[] = [];
+    const graph = new DependencyGraph(allModules, allClasses);
+    this.displayNames = new Map([...getDisplayNames(allClasses), ...getDisplayNames(allModules)]);
     
     lines.push(`# NestJS Class Diagram - ${module.name}`);
     lines.push('');
@@ -110,103 +146,335 @@ export class ClassDiagramGenerator {
     lines.push('');
 
     // Get classes directly in this module
-    const moduleClasses = allClasses.filter(c => c.moduleContext === module.name);
+    const moduleClasses = allClasses.filter(c => c.moduleId === module.id);
     
-    // Get all dependencies of module classes
-    const allDependencies = new Set<string>();
+    // Get all dependencies of module classes, including classes reached through tokens
+    const allDependencies = new Set<ClassInfo>();
+    const tokenNodes = this.collectTokenNodes(moduleClasses, graph);
     for (const classInfo of moduleClasses) {
       for (const dep of classInfo.dependencies) {
-        allDependencies.add(dep.type);
+        const resolved = graph.resolve(classInfo, dep);
+        if (resolved.target) allDependencies.add(resolved.target);
+        if (graph.isTokenInjection(dep, resolved)) {
+          resolved.injects.forEach(injected => allDependencies.add(injected));
+        }
       }
     }
 
+    // Controllers covered by this module's middleware
+    const middlewareResolver = new MiddlewareResolver(allClasses);
+    for (const binding of module.middleware || []) {
+      middlewareResolver.getControllers(binding).forEach(controller => allDependencies.add(controller));
+    }
+
     // Find dependency classes and group them by module
     const dependencyClassesByModule = new Map<string, ClassInfo[]>();
     const localDependencies: ClassInfo[] = [];
 
-    for (const depName of allDependencies) {
-      const depClass = allClasses.find(c => c.name === depName);
-      if (!depClass) continue;
-
-      if (depClass.moduleContext === module.name) {
+    for (const depClass of allDependencies) {
+      if (depClass.moduleId === module.id) {
         // Already in our module, will be shown at root
         continue;
-      } else if (depClass.moduleContext) {
+      } else if (depClass.moduleId) {
         // From another module - group it
-        if (!dependencyClassesByModule.has(depClass.moduleContext)) {
-          dependencyClassesByModule.set(depClass.moduleContext, []);
+        if (!dependencyClassesByModule.has(depClass.moduleId)) {
+          dependencyClassesByModule.set(depClass.moduleId, []);
         }
-        dependencyClassesByModule.get(depClass.moduleContext)!.push(depClass);
+        dependencyClassesByModule.get(depClass.moduleId)!.push(depClass);
       } else {
         // No module context - show at root
         localDependencies.push(depClass);
       }
     }
 
+    // Token nodes live in the module that provides them
+    const tokensByModule = this.groupTokensByModule(tokenNodes);
+    for (const tokenModuleId of tokensByModule.keys()) {
+      if (tokenModuleId && tokenModuleId !== module.id && !dependencyClassesByModule.has(tokenModuleId)) {
+        dependencyClassesByModule.set(tokenModuleId, []);
+      }
+    }
+
     // Build a set of all modules that will be rendered as containers
     const renderedModules = new Set<string>();
-    renderedModules.add(module.name);
-    for (const depModuleName of dependencyClassesByModule.keys()) {
-      renderedModules.add(depModuleName);
-    }
+    renderedModules.add(module.id);
 
     // Create this module's container
-    const sanitizedModuleName = this.sanitizeName(module.name);
-    lines.push(`${sanitizedModuleName}: ${module.name} {`);
-    lines.push('  class: [container-expanded]');
-    lines.push('');
+    this.addModuleContainer(lines, module, moduleClasses, tokensByModule.get(module.id) || []);
 
-    for (const classInfo of moduleClasses) {
-      this.addClassNode(lines, classInfo, '  ');
+    // Create expanded containers for dependency modules
+    for (const [depModuleId, depClasses] of dependencyClassesByModule) {
+      const depModule = allModules.find(m => m.id === depModuleId);
+      if (!depModule) continue;
+      renderedModules.add(depModuleId);
+      this.addModuleContainer(lines, depModule, depClasses, tokensByModule.get(depModuleId) || []);
     }
 
-    lines.push('}');
+    // Add ungrouped dependencies and tokens
+    for (const classInfo of localDependencies) {
+      this.addClassNode(lines, classInfo, '');
+    }
+    for (const resolved of tokensByModule.get('') || []) {
+      this.addTokenNode(lines, resolved, '');
+    }
+
+    // Add edges - NO module prefixes since classes are nested inside containers
+    const classPath = (classInfo: ClassInfo) => {
+      const classModule = allModules.find(m => m.id === classInfo.moduleId);
+      return classModule && renderedModules.has(classModule.id)
+        ? `${this.getDisplayName(classModule).key}.${this.getDisplayName(classInfo).key}`
+        : this.getDisplayName(classInfo).key;
+    };
+    this.addDependencyEdges(lines, moduleClasses, graph, classPath);
+    this.addMiddlewareEdges(lines, [module], allClasses, classPath);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Draws the classes of a focus result inside their module containers, with
+   * the injections between them. The focused classes get a thick border.
+   */
+  generateFocused(focus: FocusResult, title: string, allClasses: ClassInfo[], allModules: ModuleInfo[]): string {
+    const lines: string[] = [];
+    const graph = new DependencyGraph(allModules, allClasses);
+    const visibleIds = new Set(focus.classes.map(c => c.id));
+    const rootIds = new Set(focus.roots.map(c => c.id));
+    this.displayNames = new Map([...getDisplayNames(allClasses), ...getDisplayNames(allModules)]);
+
+    lines.push(`# NestJS Class Diagram - Focus: ${title}`);
+    lines.push('');
+    lines.push('direction: down');
+    lines.push('');
+    this.addClassDefinitions(lines);
     lines.push('');
 
-    // Create expanded containers for dependency modules
-    for (const [depModuleName, depClasses] of dependencyClassesByModule) {
-      const sanitizedDepModuleName = this.sanitizeName(depModuleName);
-      
-      lines.push(`${sanitizedDepModuleName}: ${depModuleName} {`);
-      lines.push('  class: [container-expanded]');
-      lines.push('');
-
-      for (const classInfo of depClasses) {
-        this.addClassNode(lines, classInfo, '  ');
+    // Tokens between two shown classes live in the module that provides them
+    const tokensByModule = this.groupTokensByModule(this.collectTokenNodes(focus.classes, graph, visibleIds));
+    const moduleIds = new Set([
+      ...focus.classes.map(c => c.moduleId ?? ''),
+      ...tokensByModule.keys(),
+    ]);
+
+    for (const module of allModules.filter(m => moduleIds.has(m.id))) {
+      const moduleClasses = focus.classes.filter(c => c.moduleId === module.id);
+      this.addModuleContainer(lines, module, moduleClasses, tokensByModule.get(module.id) || [], rootIds);
+    }
+    for (const classInfo of focus.classes.filter(c => !c.moduleId || !allModules.some(m => m.id === c.moduleId))) {
+      this.addClassNode(lines, classInfo, '', rootIds.has(classInfo.id));
+    }
+    for (const resolved of tokensByModule.get('') || []) {
+      this.addTokenNode(lines, resolved, '');
+    }
+
+    const classPath = (classInfo: ClassInfo) => {
+      const module = allModules.find(m => m.id === classInfo.moduleId);
+      return module
+        ? `${this.getDisplayName(module).key}.${this.getDisplayName(classInfo).key}`
+        : this.getDisplayName(classInfo).key;
+    };
+    this.addDependencyEdges(lines, focus.classes, graph, classPath, visibleIds);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Collects the injection tokens that dependencies of the given classes go
+   * through, keyed by their diagram path. With visibleIds, only tokens
+   * leading to one of those classes are collected.
+   */
+  private collectTokenNodes(classes: ClassInfo[], graph: DependencyGraph, visibleIds?: Set<string>): Map<string, ResolvedDependency> {
+    const tokenNodes = new Map<string, ResolvedDependency>();
+
+    for (const classInfo of classes) {
+      for (const dep of classInfo.dependencies) {
+        const resolved = graph.resolve(classInfo, dep);
+        if (graph.isTokenInjection(dep, resolved) && this.isVisibleToken(resolved, visibleIds)) {
+          tokenNodes.set(this.tokenPath(resolved), resolved);
+        }
       }
+    }
+
+    return tokenNodes;
+  }
+
+  private groupTokensByModule(tokenNodes: Map<string, ResolvedDependency>): Map<string, ResolvedDependency[]> {
+    const tokensByModule = new Map<string, ResolvedDependency[]>();
 
-      lines.push('}');
-      lines.push('');
+    for (const resolved of tokenNodes.values()) {
+      const moduleId = resolved.providerModule?.id || '';
+      if (!tokensByModule.has(moduleId)) {
+        tokensByModule.set(moduleId, []);
+      }
+      tokensByModule.get(moduleId)!.push(resolved);
     }
 
-    // Add ungrouped dependencies
-    for (const classInfo of localDependencies) {
-      this.addClassNode(lines, classInfo, '');
+    return tokensByModule;
+  }
+
+  private addModuleContainer(
+    lines: string[],
+    module: ModuleInfo,
+    classes: ClassInfo[],
+    tokens: ResolvedDependency[],
+    focusedIds?: Set<string>
+  ): void {
+    const { key, label } = this.getDisplayName(module);
+    lines.push(`${key}: ${label} {`);
+    lines.push('  class: [container-expanded]');
+    lines.push('');
+
+    for (const classInfo of classes) {
+      this.addClassNode(lines, classInfo, '  ', focusedIds?.has(classInfo.id));
+    }
+    for (const resolved of tokens) {
+      this.addTokenNode(lines, resolved, '  ');
     }
 
-    // Add edges - NO module prefixes since classes are nested inside containers
-    for (const classInfo of moduleClasses) {
-      const className = this.sanitizeName(classInfo.name);
-      const sourceFullPath = `${sanitizedModuleName}.${className}`;
-      
+    lines.push('}');
+    lines.push('');
+  }
+
+  private addDependencyEdges(
+    lines: string[],
+    classes: ClassInfo[],
+    graph: DependencyGraph,
+    classPath: (classInfo: ClassInfo) => string,
+    visibleIds?: Set<string> // Only edges between these classes are drawn
+  ): void {
+    const drawnTokens = new Set<string>();
+    const isVisible = (classInfo: ClassInfo) => !visibleIds || visibleIds.has(classInfo.id);
+
+    for (const classInfo of classes) {
+      const sourceFullPath = classPath(classInfo);
+
       for (const dep of classInfo.dependencies) {
-        const depClassName = this.sanitizeName(dep.type);
-        const depClass = allClasses.find(c => c.name === dep.type);
-        if (!depClass) continue;
-        
-        let targetFullPath: string;
-        if (depClass.moduleContext && renderedModules.has(depClass.moduleContext)) {
-          targetFullPath = `${this.sanitizeName(depClass.moduleContext)}.${depClassName}`;
-        } else {
-          targetFullPath = depClassName;
+        const resolved = graph.resolve(classInfo, dep);
+        const style = this.edgeStyle(classInfo, dep, resolved.target);
+
+        // Token injections go consumer -> token -> class or factory that fulfils it
+        if (graph.isTokenInjection(dep, resolved)) {
+          if (!this.isVisibleToken(resolved, visibleIds)) continue;
+          const tokenFullPath = this.tokenPath(resolved);
+          lines.push(`${sourceFullPath} -> ${tokenFullPath}: @Inject(${resolved.token})${this.edgeSuffix(classInfo, dep, resolved.target)}${style}`);
+
+          if (!drawnTokens.has(tokenFullPath)) {
+            drawnTokens.add(tokenFullPath);
+            if (resolved.target && isVisible(resolved.target)) {
+              lines.push(`${tokenFullPath} -> ${classPath(resolved.target)}: ${resolved.provider?.kind || 'provides'}`);
+            }
+            for (const injected of resolved.injects.filter(isVisible)) {
+              lines.push(`${tokenFullPath} -> ${classPath(injected)}: inject`);
+            }
+          }
+          continue;
         }
-        
-        const style = dep.isOptional ? ' {style.stroke-dash: 3}' : '';
-        lines.push(`${sourceFullPath} -> ${targetFullPath}: depends on${style}`);
+
+        if (!resolved.target || !isVisible(resolved.target)) continue;
+        lines.push(`${sourceFullPath} -> ${classPath(resolved.target)}: depends on${this.edgeSuffix(classInfo, dep, resolved.target)}${style}`);
       }
     }
+  }
 
-    return lines.join('\n');
+  private addMiddlewareEdges(
+    lines: string[],
+    modules: ModuleInfo[],
+    classes: ClassInfo[],
+    classPath: (classInfo: ClassInfo) => string
+  ): void {
+    const resolver = new MiddlewareResolver(classes);
+
+    for (const module of modules) {
+      for (const binding of module.middleware || []) {
+        const controllers = resolver.getControllers(binding);
+
+        // Functional middleware (e.g. helmet()) has no class node
+        for (const middlewareClass of classes.filter(c => binding.middlewareIds.includes(c.id))) {
+
+          for (const controller of controllers) {
+            lines.push(`${classPath(middlewareClass)} -> ${classPath(controller)}: applies to {style.stroke: "#00897B"; style.stroke-dash: 5}`);
+          }
+        }
+      }
+    }
+  }
+
+  private isVisibleToken(resolved: ResolvedDependency, visibleIds?: Set<string>): boolean {
+    if (!visibleIds) return true;
+    return [resolved.target, ...resolved.injects].some(classInfo => classInfo && visibleIds.has(classInfo.id));
+  }
+
+  private findIssue(classInfo: ClassInfo, dep: DependencyInfo): DependencyIssue | undefined {
+    return this.annotations.issues?.find(issue =>
+      issue.filePath === classInfo.filePath &&
+      issue.className === classInfo.name &&
+      issue.dependency.name === dep.name
+    );
+  }
+
+  private findViolation(classInfo: ClassInfo, dep: DependencyInfo): LintViolation | undefined {
+    return this.annotations.violations?.find(violation =>
+      violation.kind === 'dependency' && violation.from === classInfo.id && violation.dependency === dep.name
+    );
+  }
+
+  private isCycleEdge(classInfo: ClassInfo, target?: ClassInfo): boolean {
+    if (!target) return false;
+    return (this.annotations.cycles || []).some(cycle =>
+      cycle.kind === 'provider' && cycle.edges.some(e => e.from === classInfo.id && e.to === target.id)
+    );
+  }
+
+  private edgeSuffix(classInfo: ClassInfo, dep: DependencyInfo, target?: ClassInfo): string {
+    let suffix = '';
+    if (dep.isForwardRef) suffix += ' - forwardRef';
+    if (this.isCycleEdge(classInfo, target)) suffix += ' (cycle)';
+    if (this.findIssue(classInfo, dep)) suffix += ' (unresolved)';
+    const violation = this.findViolation(classInfo, dep);
+    if (violation) suffix += ` (violates ${violation.rule.replace(/[[\]]/g, '\\$&')})`;
+    return suffix;
+  }
+
+  private edgeStyle(classInfo: ClassInfo, dep: DependencyInfo, target?: ClassInfo): string {
+    const styles: string[] = [];
+
+    if (dep.isOptional || dep.isForwardRef) {
+      styles.push('style.stroke-dash: 3');
+    }
+    if (this.findIssue(classInfo, dep)) {
+      styles.push('style.stroke: "#D32F2F"', 'style.stroke-width: 3', 'style.font-color: "#D32F2F"');
+    } else if (this.findViolation(classInfo, dep)) {
+      styles.push('style.stroke: "#E65100"', 'style.stroke-width: 3', 'style.font-color: "#E65100"');
+    } else if (this.isCycleEdge(classInfo, target)) {
+      styles.push('style.stroke: "#AD1457"', 'style.stroke-width: 3', 'style.font-color: "#AD1457"');
+    }
+
+    return styles.length > 0 ? ` {${styles.join('; ')}}` : '';
+  }
+
+  private tokenPath(resolved: ResolvedDependency): string {
+    const tokenName = this.sanitizeName(`token_${resolved.token}`);
+    return resolved.providerModule
+      ? `${this.getDisplayName(resolved.providerModule).key}.${tokenName}`
+      : tokenName;
+  }
+
+  private addTokenNode(lines: string[], resolved: ResolvedDependency, indent: string): void {
+    const tokenName = this.sanitizeName(`token_${resolved.token}`);
+    const provider = resolved.provider;
+
+    let label = resolved.token;
+    if (provider?.kind === 'useFactory') {
+      label += provider.factory ? ` (${provider.factory}())` : ' (useFactory)';
+    } else if (provider?.kind === 'useValue') {
+      label += ' (useValue)';
+    }
+
+    lines.push(`${indent}${tokenName}: ${label} {`);
+    lines.push(`${indent}  shape: hexagon`);
+    lines.push(`${indent}  style.fill: "#fff3e0"`);
+    lines.push(`${indent}}`);
+    lines.push('');
   }
 
   private addClassDefinitions(lines: string[]): void {
@@ -222,14 +490,19 @@ export class ClassDiagramGenerator {
     lines.push('}');
   }
 
-  private addClassNode(lines: string[], classInfo: ClassInfo, indent: string): void {
-    const className = this.sanitizeName(classInfo.name);
-    lines.push(`${indent}${className}: ${classInfo.name} {`);
+  private addClassNode(lines: string[], classInfo: ClassInfo, indent: string, isFocused = false): void {
+    const { key, label } = this.getDisplayName(classInfo);
+    const stereotype = classInfo.stereotype ? `«${classInfo.stereotype}» ` : '';
+    lines.push(`${indent}${key}: "${stereotype}${label}" {`);
     lines.push(`${indent}  shape: class`);
     
     if (classInfo.isInjectable) {
       lines.push(`${indent}  style.fill: "#e3f2fd"`);
     }
+    if (isFocused) {
+      lines.push(`${indent}  style.stroke: "#1565C0"`);
+      lines.push(`${indent}  style.stroke-width: 4`);
+    }
 
     // Add properties/attributes
     if (this.includeAttributes && classInfo.properties.length > 0) {
@@ -263,6 +536,10 @@ export class ClassDiagramGenerator {
     lines.push('');
   }
 
+  private getDisplayName(item: ClassInfo | ModuleInfo): DisplayName {
+    return this.displayNames.get(item.id) ?? { key: this.sanitizeName(item.name), label: item.name };
+  }
+
   private sanitizeName(name: string): string {
     return name
       .replace(/[^a-zA-Z0-9_]/g, '_')
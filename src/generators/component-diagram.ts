@@ -1,12 +1,30 @@
-import { ModuleInfo } from '../types';
+import { CycleInfo, ModuleInfo, ModuleImportInfo, WorkspaceInfo } from '../types';
+import { DependencyGraph } from '../analyzers/dependency-graph';
+import { DisplayName, getDisplayNames } from './display-names';
+import { openMarkdownNode } from './markdown-blocks';
+import { HeatmapMetric } from '../analyzers/metrics-analyzer';
+
+export interface ComponentDiagramAnnotations {
+  cycles?: CycleInfo[]; // Module import cycles, drawn in magenta
+  heatmap?: { metric: HeatmapMetric; values: Map<string, number> }; // By module ID, filled green to red
+}
+
+// Heatmap fills for the lowest, middle and highest values
+const HEATMAP_COLORS: [number, number, number][] = [[0xA5, 0xD6, 0xA7], [0xFF, 0xF5, 0x9D], [0xEF, 0x9A, 0x9A]];
 
 export class ComponentDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By module ID
 
-  constructor(private containerTitle: string) {}
+  constructor(
+    private containerTitle: string,
+    private annotations: ComponentDiagramAnnotations = {},
+    private workspace?: WorkspaceInfo // Monorepos get one container per app
+  ) {}
   
   generate(modules: ModuleInfo[], showNesting: boolean = false): string {
     const lines: string[] = [];
     const containerTitleUpperCamelCase = this.sanitizeName(this.containerTitle.replace(/ /g, ""));
+    this.displayNames = getDisplayNames(modules);
     
     lines.push('# NestJS Component Diagram');
     lines.push('');
@@ -32,6 +50,19 @@ export class ComponentDiagramGenerator {
     lines.push('    style.stroke: "#666666"');
     lines.push('    style.font-color: "#333333"');
     lines.push('  }');
+    lines.push('  shared-component: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#85BBF0"');
+    lines.push('    style.border-radius: 32');
+    lines.push('  }');
+    lines.push('  system-expanded: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 32');
+    lines.push('    style.stroke-dash: 3');
+    lines.push('    label.near: bottom-left');
+    lines.push('    style.stroke: "#1061B0"');
+    lines.push('    style.font-color: "#1061B0"');
+    lines.push('  }');
     lines.push('  container: {');
     lines.push('    shape: rectangle');
     lines.push('    style.fill: "#23A2D9"');
@@ -49,20 +80,22 @@ export class ComponentDiagramGenerator {
     lines.push('  }');
     lines.push('}');
     lines.push('');
-    lines.push(`${containerTitleUpperCamelCase}: |md`);
-    lines.push(`  ## ${this.containerTitle}`);
-    lines.push(`  **[Container: NestJS]**`);
-    lines.push(`| {`);
-    lines.push('  class: [container-expanded]');
-    lines.push('}');
-    lines.push('');
+    if (this.workspace?.monorepo) {
+      this.addWorkspaceContainers(lines, containerTitleUpperCamelCase, modules);
+    } else {
+      openMarkdownNode(lines, containerTitleUpperCamelCase, [
+        `  ## ${this.containerTitle}`,
+        `  **[Container: NestJS]**`,
+      ]);
+      lines.push('  class: [container-expanded]');
+      lines.push('}');
+      lines.push('');
+    }
 
     // Create nodes for each module
     for (const module of modules) {
-      const moduleName = this.sanitizeName(module.name);
-      
       // Build the label in C4 markdown style
-      let label = `### ${module.name}`;
+      let label = `### ${this.getDisplayName(module).label}`;
       
       label += `\n  ---`;
       
@@ -71,14 +104,25 @@ export class ComponentDiagramGenerator {
       }
       
       if (module.description) {
-        label += `\n\n  ${module.description}`;
+        // Keep every line of multi-line descriptions inside the markdown block
+        label += `\n\n  ${module.description.split('\n').join('\n  ')}`;
+      }
+
+      const heat = this.annotations.heatmap?.values.get(module.id);
+      if (heat !== undefined) {
+        const { metric } = this.annotations.heatmap!;
+        label += `\n\n  *${metric}: ${metric === 'instability' ? heat.toFixed(2) : heat}*`;
       }
       
       // Start module block
-      lines.push(`${containerTitleUpperCamelCase}.${moduleName}: |md`);
-      lines.push(`  ${label}`);
-      lines.push(`| {`);
-      lines.push('  class: [component]');
+      openMarkdownNode(lines, this.modulePath(containerTitleUpperCamelCase, module), [`  ${label}`]);
+      lines.push(`  class: [${this.isSharedModule(module) ? 'shared-component' : 'component'}]`);
+      if (heat !== undefined) {
+        lines.push(`  style.fill: "${this.heatmapColor(heat)}"`);
+      }
+      if (module.tags && module.tags.length > 0) {
+        lines.push(`  tooltip: "Tags: ${module.tags.join(', ').replace(/"/g, '\\"')}"`);
+      }
       
       // Only show nesting if explicitly requested (non-interactive mode)
       if (showNesting) {
@@ -88,8 +132,8 @@ export class ComponentDiagramGenerator {
           lines.push('  providers: Providers {');
           lines.push('    shape: rectangle');
           for (const provider of module.providers) {
-            const providerName = this.sanitizeName(provider);
-            lines.push(`    ${providerName}: ${provider}`);
+            const providerName = this.sanitizeName(provider.token);
+            lines.push(`    ${providerName}: ${provider.token}`);
           }
           lines.push('  }');
         }
@@ -105,6 +149,18 @@ export class ComponentDiagramGenerator {
           }
           lines.push('  }');
         }
+
+        // Add middleware applied in configure() as nested elements
+        const middleware = [...new Set((module.middleware || []).flatMap(binding => binding.middleware))];
+        if (middleware.length > 0) {
+          lines.push('');
+          lines.push('  middleware: Middleware {');
+          lines.push('    shape: rectangle');
+          for (const name of middleware) {
+            lines.push(`    ${this.sanitizeName(name)}: ${name}`);
+          }
+          lines.push('  }');
+        }
       }
 
       lines.push('}');
@@ -112,19 +168,16 @@ export class ComponentDiagramGenerator {
     }
 
     // Create edges for imports
+    const graph = new DependencyGraph(modules, []);
     for (const module of modules) {
-      const moduleName = this.sanitizeName(module.name);
-      
       for (const importedModule of module.imports) {
-        const importedModuleName = this.sanitizeName(importedModule);
-        
+        const importDetail = module.importDetails.find(i => i.name === importedModule);
         // Check if the imported module exists in our analysis
-        const exists = modules.some(m => 
-          this.sanitizeName(m.name) === importedModuleName
-        );
+        const target = graph.resolveImport(module, importedModule);
         
-        if (exists) {
-          lines.push(`${containerTitleUpperCamelCase}.${moduleName} -> ${containerTitleUpperCamelCase}.${importedModuleName}: imports`);
+        if (target) {
+          const inCycle = this.isCycleEdge(module.id, target.id);
+          lines.push(`${this.modulePath(containerTitleUpperCamelCase, module)} -> ${this.modulePath(containerTitleUpperCamelCase, target)}: ${this.importEdgeLabel(importDetail, inCycle)}`);
         }
       }
     }
@@ -132,6 +185,84 @@ export class ComponentDiagramGenerator {
     return lines.join('\n');
   }
 
+  /**
+   * Wraps the workspace in a system with one container per app and per lib.
+   */
+  private addWorkspaceContainers(lines: string[], systemName: string, modules: ModuleInfo[]): void {
+    openMarkdownNode(lines, systemName, [
+      `  ## ${this.containerTitle}`,
+      `  **[Software System]**`,
+    ]);
+    lines.push('  class: [system-expanded]');
+    lines.push('}');
+    lines.push('');
+
+    for (const project of this.workspace!.projects) {
+      if (!modules.some(m => m.project === project.name)) continue;
+
+      openMarkdownNode(lines, `${systemName}.${this.sanitizeName(project.name)}`, [
+        `  ## ${project.name}`,
+        project.type === 'library' ? `  **[Library: NestJS]**` : `  **[Container: NestJS]**`,
+      ]);
+      lines.push('  class: [container-expanded]');
+      lines.push('}');
+      lines.push('');
+    }
+  }
+
+  private modulePath(root: string, module: ModuleInfo): string {
+    const moduleName = this.getDisplayName(module).key;
+    return module.project ? `${root}.${this.sanitizeName(module.project)}.${moduleName}` : `${root}.${moduleName}`;
+  }
+
+  private isSharedModule(module: ModuleInfo): boolean {
+    return this.workspace?.projects.some(p => p.name === module.project && p.type === 'library') ?? false;
+  }
+
+  private importEdgeLabel(importDetail: ModuleImportInfo | undefined, inCycle: boolean): string {
+    let label = importDetail?.method ? `imports (${importDetail.method})` : 'imports';
+    const styles: string[] = [];
+
+    // forwardRef marks a known circular import
+    if (importDetail?.isForwardRef) {
+      label += ' - forwardRef';
+      styles.push('style.stroke-dash: 5');
+    }
+
+    if (inCycle) {
+      label += ' (cycle)';
+      styles.push('style.stroke: "#AD1457"', 'style.stroke-width: 3', 'style.font-color: "#AD1457"');
+    } else if (importDetail?.isForwardRef) {
+      styles.push('style.stroke: "#D9822B"');
+    }
+
+    return styles.length > 0 ? `${label} {${styles.join('; ')}}` : label;
+  }
+
+  /**
+   * Interpolates green over yellow to red. Instability already lies between
+   * 0 and 1, counts are scaled by the highest one.
+   */
+  private heatmapColor(value: number): string {
+    const { metric, values } = this.annotations.heatmap!;
+    const max = metric === 'instability' ? 1 : Math.max(...values.values());
+    const position = (max > 0 ? value / max : 0) * (HEATMAP_COLORS.length - 1);
+    const index = Math.min(Math.floor(position), HEATMAP_COLORS.length - 2);
+    const [from, to] = [HEATMAP_COLORS[index], HEATMAP_COLORS[index + 1]];
+
+    return `#${from.map((channel, i) => Math.round(channel + (to[i] - channel) * (position - index)).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+
+  private isCycleEdge(from: string, to: string): boolean {
+    return (this.annotations.cycles || []).some(cycle =>
+      cycle.kind === 'module' && cycle.edges.some(e => e.from === from && e.to === to)
+    );
+  }
+
+  private getDisplayName(module: ModuleInfo): DisplayName {
+    return this.displayNames.get(module.id) ?? { key: this.sanitizeName(module.name), label: module.name };
+  }
+
   private sanitizeName(name: string): string {
     // Remove special characters and make valid D2 identifier
     return name
@@ -0,0 +1,130 @@
+import { ArchitectureDiff, ChangeStatus, DiffEdge, DiffNode, ProviderDiffNode } from '../analyzers/diff-analyzer';
+import { DisplayName, getDisplayNames } from './display-names';
+
+const STATUS_STYLES: Record<ChangeStatus, { fill: string; stroke: string }> = {
+  added: { fill: '#E8F5E9', stroke: '#2E7D32' },
+  removed: { fill: '#FFEBEE', stroke: '#C62828' },
+  changed: { fill: '#FFF8E1', stroke: '#F9A825' },
+  unchanged: { fill: '#FAFAFA', stroke: '#BDBDBD' },
+};
+
+export class DiffDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By module and provider ID
+
+  generate(diff: ArchitectureDiff, base: string, head: string): string {
+    const lines: string[] = [];
+    this.displayNames = new Map([...getDisplayNames(diff.modules), ...getDisplayNames(diff.providers)]);
+
+    lines.push(`# NestJS Architecture Diff: ${base} -> ${head}`);
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+    this.addClassDefinitions(lines);
+    lines.push('');
+    this.addLegend(lines);
+    lines.push('');
+
+    // Unchanged providers only appear when a changed dependency touches them
+    const changedEdges = diff.edges.filter(edge => edge.kind === 'dependency' && edge.status !== 'unchanged');
+    const touched = new Set(changedEdges.flatMap(edge => [edge.from, edge.to]));
+    const shownProviders = diff.providers.filter(p => p.status !== 'unchanged' || touched.has(p.id));
+
+    for (const module of diff.modules) {
+      const { key, label } = this.getDisplayName(module);
+      lines.push(`${key}: "${label}" {`);
+      lines.push(`  class: [module-${module.status}]`);
+      this.addTooltip(lines, module, '  ');
+      for (const provider of shownProviders.filter(p => p.moduleId === module.id)) {
+        const { key: providerKey, label: providerLabel } = this.getDisplayName(provider);
+        lines.push(`  ${providerKey}: "${this.escape(providerLabel)}" {`);
+        lines.push(`    class: [${provider.status}]`);
+        this.addTooltip(lines, provider, '    ');
+        lines.push('  }');
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Every module import for context, but only the dependencies that changed
+    for (const edge of diff.edges.filter(e => e.kind === 'import')) {
+      const from = this.displayNames.get(edge.from);
+      const to = this.displayNames.get(edge.to);
+      if (!from || !to) continue;
+      lines.push(`${from.key} -> ${to.key}: ${this.getEdgeLabel(edge)} {class: edge-${edge.status}}`);
+    }
+    for (const edge of changedEdges) {
+      lines.push(`${this.providerPath(diff, edge.from)} -> ${this.providerPath(diff, edge.to)}: ${this.getEdgeLabel(edge)} {class: edge-${edge.status}}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private getEdgeLabel(edge: DiffEdge): string {
+    const verb = edge.kind === 'import' ? 'imports' : 'injects';
+    if (edge.status === 'added') return `${verb} (added)`;
+    if (edge.status === 'removed') return `${verb} (removed)`;
+    return verb;
+  }
+
+  private providerPath(diff: ArchitectureDiff, providerId: string): string {
+    const provider = diff.providers.find(p => p.id === providerId)!;
+    const module = diff.modules.find(m => m.id === provider.moduleId)!;
+    return `${this.getDisplayName(module).key}.${this.getDisplayName(provider).key}`;
+  }
+
+  private addTooltip(lines: string[], node: DiffNode | ProviderDiffNode, indent: string): void {
+    if (node.changes.length === 0) return;
+    lines.push(`${indent}tooltip: "${node.changes.map(change => this.escape(change)).join('\\n')}"`);
+  }
+
+  private addLegend(lines: string[]): void {
+    lines.push('legend: Legend {');
+    lines.push('  near: top-right');
+    lines.push('  added: Added {class: [added]}');
+    lines.push('  removed: Removed {class: [removed]}');
+    lines.push('  changed: Changed {class: [changed]}');
+    lines.push('}');
+  }
+
+  private getDisplayName(item: { id: string; name: string }): DisplayName {
+    return this.displayNames.get(item.id) ?? { key: this.sanitizeName(item.name), label: item.name };
+  }
+
+  private addClassDefinitions(lines: string[]): void {
+    lines.push('classes: {');
+    for (const [status, style] of Object.entries(STATUS_STYLES)) {
+      lines.push(`  module-${status}: {`);
+      lines.push('    shape: rectangle');
+      lines.push('    style.border-radius: 32');
+      lines.push(`    style.fill: "${style.fill}"`);
+      lines.push(`    style.stroke: "${style.stroke}"`);
+      lines.push(`    style.stroke-width: ${status === 'unchanged' ? 1 : 3}`);
+      if (status === 'removed') lines.push('    style.stroke-dash: 3');
+      lines.push('    label.near: bottom-left');
+      lines.push('  }');
+      lines.push(`  ${status}: {`);
+      lines.push('    shape: rectangle');
+      lines.push('    style.border-radius: 16');
+      lines.push(`    style.fill: "${style.fill}"`);
+      lines.push(`    style.stroke: "${style.stroke}"`);
+      if (status === 'removed') lines.push('    style.stroke-dash: 3');
+      lines.push('  }');
+      lines.push(`  edge-${status}: {`);
+      lines.push(`    style.stroke: "${style.stroke}"`);
+      if (status !== 'unchanged') lines.push('    style.stroke-width: 2');
+      if (status === 'removed') lines.push('    style.stroke-dash: 3');
+      lines.push('  }');
+    }
+    lines.push('}');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/"/g, '\\"');
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
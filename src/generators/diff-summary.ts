@@ -0,0 +1,79 @@
+import { ArchitectureDiff, ChangeStatus, DiffEdge, DiffNode } from '../analyzers/diff-analyzer';
+
+const STATUS_MARKERS: Record<Exclude<ChangeStatus, 'unchanged'>, string> = {
+  added: '🟢',
+  removed: '🔴',
+  changed: '🟡',
+};
+
+/**
+ * Markdown summary of an architecture diff, for pull request descriptions.
+ */
+export class DiffSummaryGenerator {
+  generate(diff: ArchitectureDiff, base: string, head: string): string {
+    const lines: string[] = [];
+    const imports = diff.edges.filter(edge => edge.kind === 'import');
+    const dependencies = diff.edges.filter(edge => edge.kind === 'dependency');
+
+    lines.push(`## Architecture changes (\`${base}\` → \`${head}\`)`);
+    lines.push('');
+
+    const changed = [...diff.modules, ...diff.providers].some(node => node.status !== 'unchanged')
+      || diff.edges.some(edge => edge.status !== 'unchanged');
+    if (!changed) {
+      lines.push('No changes to modules, providers, imports or dependencies.');
+      lines.push('');
+      return lines.join('\n');
+    }
+
+    lines.push('| | Added | Removed | Changed |');
+    lines.push('|---|---|---|---|');
+    lines.push(this.countRow('Modules', diff.modules, true));
+    lines.push(this.countRow('Providers', diff.providers, true));
+    lines.push(this.countRow('Module imports', imports, false));
+    lines.push(this.countRow('Dependencies', dependencies, false));
+    lines.push('');
+
+    const names = new Map([...diff.modules, ...diff.providers].map(node => [node.id, node.name]));
+    const moduleNames = new Map(diff.modules.map(module => [module.id, module.name]));
+
+    this.addNodeSection(lines, 'Modules', diff.modules, () => '');
+    this.addNodeSection(lines, 'Providers', diff.providers, provider => ` in ${moduleNames.get(provider.moduleId)}`);
+    this.addEdgeSection(lines, 'Module imports', imports, names);
+    this.addEdgeSection(lines, 'Dependencies', dependencies, names);
+
+    return lines.join('\n');
+  }
+
+  // Edges are only ever added or removed, so they have no changed count
+  private countRow(title: string, items: { status: ChangeStatus }[], canChange: boolean): string {
+    const count = (status: ChangeStatus) => items.filter(item => item.status === status).length;
+    return `| ${title} | ${count('added')} | ${count('removed')} | ${canChange ? count('changed') : '–'} |`;
+  }
+
+  private addNodeSection<T extends DiffNode>(lines: string[], title: string, nodes: T[], context: (node: T) => string): void {
+    const changed = nodes.filter(node => node.status !== 'unchanged');
+    if (changed.length === 0) return;
+
+    lines.push(`### ${title}`);
+    lines.push('');
+    for (const node of changed) {
+      const details = node.status === 'changed' ? `: ${node.changes.join('; ')}` : ` ${node.status}`;
+      lines.push(`- ${STATUS_MARKERS[node.status as keyof typeof STATUS_MARKERS]} **${node.name}**${context(node)}${details}`);
+    }
+    lines.push('');
+  }
+
+  private addEdgeSection(lines: string[], title: string, edges: DiffEdge[], names: Map<string, string>): void {
+    const changed = edges.filter(edge => edge.status !== 'unchanged');
+    if (changed.length === 0) return;
+
+    lines.push(`### ${title}`);
+    lines.push('');
+    for (const edge of changed) {
+      const marker = STATUS_MARKERS[edge.status as keyof typeof STATUS_MARKERS];
+      lines.push(`- ${marker} ${names.get(edge.from) ?? edge.from} → ${names.get(edge.to) ?? edge.to} ${edge.status}`);
+    }
+    lines.push('');
+  }
+}
@@ -0,0 +1,59 @@
+import { dirname } from 'path';
+
+export interface DisplayName {
+  key: string; // D2 identifier
+  label: string;
+}
+
+/**
+ * Gives every class or module a unique D2 key and label. Unique names are
+ * used as they are; duplicates get the shortest folder suffix that tells
+ * them apart, e.g. "UserService (legacy/users)".
+ */
+export function getDisplayNames(items: { id: string; name: string; filePath: string }[]): Map<string, DisplayName> {
+  const displayNames = new Map<string, DisplayName>();
+  const byName = new Map<string, { id: string; filePath: string }[]>();
+
+  for (const item of items) {
+    if (!byName.has(item.name)) byName.set(item.name, []);
+    const group = byName.get(item.name)!;
+    if (!group.some(other => other.id === item.id)) group.push(item);
+  }
+
+  for (const [name, group] of byName) {
+    if (group.length === 1) {
+      displayNames.set(group[0].id, { key: sanitizeName(name), label: name });
+      continue;
+    }
+
+    // Folders first; files when the duplicates share a folder
+    const suffixes = findDistinctSuffixes(group.map(item => dirname(item.filePath).split(/[\\/]/)))
+      ?? findDistinctSuffixes(group.map(item => item.filePath.split(/[\\/]/)))
+      ?? group.map(item => item.id);
+
+    group.forEach((item, index) => {
+      displayNames.set(item.id, {
+        key: sanitizeName(`${name}_${suffixes[index]}`),
+        label: `${name} (${suffixes[index]})`,
+      });
+    });
+  }
+
+  return displayNames;
+}
+
+function findDistinctSuffixes(paths: string[][]): string[] | undefined {
+  const maxDepth = Math.max(...paths.map(segments => segments.length));
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const candidates = paths.map(segments => segments.slice(-depth).join('/'));
+    if (new Set(candidates).size === candidates.length) return candidates;
+  }
+  return undefined;
+}
+
+function sanitizeName(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9_]/g, '_')
+    .replace(/^(\d)/, '_$1');
+}
@@ -0,0 +1,152 @@
+import { ArchitectureGraph, GraphClass, GraphEdge, GraphModule, GraphProvider } from '../analyzers/architecture-graph';
+import {
+  GraphDiagramGenerator,
+  NODE_COLORS,
+  getClassMembers,
+  getClassView,
+  getEdgeLabel,
+  getEdgeStyle,
+  getNodeKeys,
+  getNodeLabels,
+  isSharedModule,
+} from './graph-views';
+
+/**
+ * Graphviz DOT counterparts of the D2 diagrams, with modules as clusters
+ * and classes as record nodes.
+ */
+export class DotDiagramGenerator implements GraphDiagramGenerator {
+  readonly extension = '.dot';
+
+  constructor(
+    private includeAttributes: boolean = true,
+    private includeMethods: boolean = true
+  ) {}
+
+  generateComponents(graph: ArchitectureGraph, containerTitle: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const lines: string[] = [];
+
+    lines.push('// NestJS Component Diagram');
+    lines.push('digraph components {');
+    lines.push('  rankdir=LR;');
+    lines.push('  fontname="Helvetica";');
+    lines.push('  node [shape=box, style="rounded,filled", fontname="Helvetica"];');
+    lines.push('  edge [fontname="Helvetica", fontsize=10];');
+    lines.push('');
+
+    const addModule = (module: GraphModule, indent: string) => {
+      let label = labels.get(module.id)!;
+      if (module.technology) label += `\n[Component: ${module.technology}]`;
+      if (module.description) label += `\n\n${module.description}`;
+      const color = isSharedModule(graph, module) ? NODE_COLORS.sharedComponent : NODE_COLORS.component;
+      lines.push(`${indent}${keys.get(module.id)} [label=${this.quote(label)}, fillcolor="${color}"];`);
+    };
+
+    lines.push('  subgraph cluster_container {');
+    lines.push(`    label=${this.quote(`${containerTitle}\n[${graph.projects.length > 0 ? 'Software System' : 'Container: NestJS'}]`)};`);
+    lines.push('    style="rounded,dashed";');
+    if (graph.projects.length > 0) {
+      // Monorepos get one cluster per app and per lib
+      graph.projects.forEach((project, index) => {
+        const projectModules = graph.modules.filter(m => m.project === project.name);
+        if (projectModules.length === 0) return;
+
+        const kind = project.type === 'library' ? 'Library' : 'Container';
+        lines.push(`    subgraph cluster_project_${index} {`);
+        lines.push(`      label=${this.quote(`${project.name}\n[${kind}: NestJS]`)};`);
+        projectModules.forEach(module => addModule(module, '      '));
+        lines.push('    }');
+      });
+      graph.modules.filter(m => !m.project).forEach(module => addModule(module, '    '));
+    } else {
+      graph.modules.forEach(module => addModule(module, '    '));
+    }
+    lines.push('  }');
+    lines.push('');
+
+    for (const edge of graph.edges.filter(edge => edge.kind === 'import')) {
+      lines.push(this.edge(edge, keys));
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  generateClasses(graph: ArchitectureGraph, moduleId?: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const view = getClassView(graph, moduleId);
+    const module = graph.modules.find(m => m.id === moduleId);
+    const lines: string[] = [];
+
+    lines.push(`// NestJS Class Diagram - ${module ? module.name : 'Global'}`);
+    lines.push('digraph classes {');
+    lines.push('  rankdir=TB;');
+    lines.push('  fontname="Helvetica";');
+    lines.push('  node [shape=record, style=filled, fillcolor="#ffffff", fontname="Helvetica"];');
+    lines.push('  edge [fontname="Helvetica", fontsize=10];');
+    lines.push('');
+
+    view.groups.forEach((group, index) => {
+      lines.push(`  subgraph cluster_module_${index} {`);
+      lines.push(`    label=${this.quote(labels.get(group.module.id)!)};`);
+      lines.push('    style="rounded,dashed";');
+      group.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, '    '));
+      group.providers.forEach(provider => this.addToken(lines, provider, keys, labels, '    '));
+      lines.push('  }');
+    });
+    view.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, '  '));
+    view.providers.forEach(provider => this.addToken(lines, provider, keys, labels, '  '));
+    lines.push('');
+
+    for (const edge of view.edges) {
+      lines.push(this.edge(edge, keys));
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  private addClass(lines: string[], classInfo: GraphClass, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    const { properties, dependencies, methods } = getClassMembers(classInfo, this.includeAttributes, this.includeMethods);
+    const title = classInfo.stereotype
+      ? `«${this.escapeRecord(classInfo.stereotype)}»\\n${this.escapeRecord(labels.get(classInfo.id)!)}`
+      : this.escapeRecord(labels.get(classInfo.id)!);
+    const fields = [
+      ...properties.map(property => `+${property}`),
+      ...dependencies.map(dependency => `-${dependency}`),
+    ];
+    const compartments = [title, this.compartment(fields), this.compartment(methods.map(method => `+${method}`))];
+    const color = classInfo.isInjectable ? `, fillcolor="${NODE_COLORS.injectable}"` : '';
+
+    lines.push(`${indent}${keys.get(classInfo.id)} [label="{${compartments.join('|')}}"${color}];`);
+  }
+
+  private addToken(lines: string[], provider: GraphProvider, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    lines.push(`${indent}${keys.get(provider.id)} [label=${this.quote(labels.get(provider.id)!)}, shape=hexagon, fillcolor="${NODE_COLORS.token}"];`);
+  }
+
+  private edge(edge: GraphEdge, keys: Map<string, string>): string {
+    const style = getEdgeStyle(edge);
+    const attributes = [`label=${this.quote(getEdgeLabel(edge))}`];
+    if (style.color) attributes.push(`color="${style.color}"`, `fontcolor="${style.color}"`);
+    if (style.bold) attributes.push('penwidth=3');
+    if (style.dashed) attributes.push('style=dashed');
+    return `  ${keys.get(edge.from)} -> ${keys.get(edge.to)} [${attributes.join(', ')}];`;
+  }
+
+  // Left-justified lines, so members line up as in a UML compartment
+  private compartment(members: string[]): string {
+    return members.map(member => `${this.escapeRecord(member)}\\l`).join('');
+  }
+
+  private escapeRecord(text: string): string {
+    return text.replace(/[\\{}|<>"]/g, match => `\\${match}`).replace(/\s+/g, ' ');
+  }
+
+  private quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
+}
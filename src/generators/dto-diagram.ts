@@ -0,0 +1,163 @@
+import { ClassInfo, DtoBaseInfo, DtoInfo, DtoPropertyInfo, ModuleInfo } from '../types';
+import { DisplayName, getDisplayNames } from './display-names';
+import { writeFileIfChanged } from './output-files';
+import { mkdirSync, existsSync } from 'fs';
+
+export class DtoDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By DTO and class ID
+
+  /**
+   * Writes one diagram per module whose controllers use DTOs, returning the
+   * written paths.
+   */
+  generateAll(dtos: DtoInfo[], classes: ClassInfo[], modules: ModuleInfo[], outputDir: string, dtoDiagramsDir = 'dto-diagrams'): string[] {
+    const writtenFiles: string[] = [];
+    const moduleNames = getDisplayNames(modules);
+
+    const dir = `${outputDir}/${dtoDiagramsDir}`;
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    for (const module of modules) {
+      if (!dtos.some(dto => dto.moduleIds.includes(module.id))) continue;
+
+      const path = `${dir}/${moduleNames.get(module.id)!.key}.d2`;
+      writeFileIfChanged(path, this.generateForModule(module, dtos, classes));
+      writtenFiles.push(path);
+    }
+
+    return writtenFiles;
+  }
+
+  generateForModule(module: ModuleInfo, dtos: DtoInfo[], classes: ClassInfo[]): string {
+    const lines: string[] = [];
+    const moduleDtos = dtos.filter(dto => dto.moduleIds.includes(module.id));
+    const controllers = classes.filter(c => c.controller && c.moduleId === module.id);
+    this.displayNames = new Map([...getDisplayNames(classes), ...getDisplayNames(dtos)]);
+
+    lines.push(`# NestJS DTO Diagram - ${module.name}`);
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+    this.addClassDefinitions(lines);
+    lines.push('');
+
+    for (const controller of controllers) {
+      if (!moduleDtos.some(dto => dto.usages.some(usage => usage.controllerId === controller.id))) continue;
+      const { key, label } = this.getDisplayName(controller);
+      lines.push(`${key}: "${label}" {`);
+      lines.push('  class: [controller]');
+      lines.push('}');
+    }
+    lines.push('');
+
+    for (const dto of moduleDtos) {
+      this.addDtoNode(lines, dto);
+    }
+
+    // Handlers taking or returning each DTO, one edge per controller
+    for (const controller of controllers) {
+      for (const dto of moduleDtos) {
+        const usages = dto.usages.filter(usage => usage.controllerId === controller.id);
+        if (usages.length === 0) continue;
+        const label = usages.map(usage => `${usage.handler}() ${usage.source}`).join(', ');
+        lines.push(`${this.getDisplayName(controller).key} -> ${this.getDisplayName(dto).key}: "${label}"`);
+      }
+    }
+
+    for (const dto of moduleDtos) {
+      const key = this.getDisplayName(dto).key;
+
+      for (const base of dto.bases) {
+        const target = this.findDto(moduleDtos, base);
+        if (!target) continue;
+        lines.push(`${key} -> ${this.getDisplayName(target).key}: "${this.escape(this.getBaseLabel(base))}" {`);
+        lines.push('  target-arrowhead.shape: triangle');
+        lines.push('  target-arrowhead.style.filled: false');
+        lines.push('}');
+      }
+
+      for (const property of dto.properties) {
+        const target = property.nested ? this.findDto(moduleDtos, property.nested) : undefined;
+        if (!target) continue;
+        lines.push(`${key} -> ${this.getDisplayName(target).key}: "${property.name}${property.nested!.isList ? ' [*]' : ''}" {`);
+        lines.push('  source-arrowhead.shape: diamond');
+        lines.push('  source-arrowhead.style.filled: true');
+        lines.push('}');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private addDtoNode(lines: string[], dto: DtoInfo): void {
+    const { key, label } = this.getDisplayName(dto);
+    const documented = dto.properties.filter(p => p.description || p.example);
+
+    lines.push(`${key}: "${label}" {`);
+    lines.push('  class: [dto]');
+    if (documented.length > 0) {
+      lines.push(`  tooltip: "${documented.map(p => this.escape(this.getDocumentation(p))).join('\\n')}"`);
+    }
+    for (const property of dto.properties) {
+      const type = `${property.type}${property.isOptional ? '?' : ''}`;
+      const row = `  ${this.quote(property.name)}: ${this.quote(type)}`;
+      const constraints = property.validators.map(validator => this.quote(validator, true));
+      lines.push(constraints.length > 0 ? `${row} {constraint: [${constraints.join('; ')}]}` : row);
+    }
+    lines.push('}');
+    lines.push('');
+  }
+
+  // email: The user's login (e.g. jane@example.com)
+  private getDocumentation(property: DtoPropertyInfo): string {
+    const example = property.example ? `e.g. ${property.example}` : '';
+    const text = property.description && example ? `${property.description} (${example})` : property.description ?? example;
+    return `${property.name}: ${text}`;
+  }
+
+  // PartialType(PickType): email, name
+  private getBaseLabel(base: DtoBaseInfo): string {
+    if (base.mappedTypes.length === 0) return 'extends';
+    const mapped = base.mappedTypes.reduceRight((inner, name) => (inner ? `${name}(${inner})` : name), '');
+    return base.keys ? `${mapped}: ${base.keys.join(', ')}` : mapped;
+  }
+
+  private findDto(dtos: DtoInfo[], ref: { type: string; typeId?: string }): DtoInfo | undefined {
+    return ref.typeId ? dtos.find(dto => dto.id === ref.typeId) : undefined;
+  }
+
+  private getDisplayName(item: DtoInfo | ClassInfo): DisplayName {
+    return this.displayNames.get(item.id) ?? { key: this.sanitizeName(item.name), label: item.name };
+  }
+
+  private addClassDefinitions(lines: string[]): void {
+    lines.push('classes: {');
+    lines.push('  controller: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#e3f2fd"');
+    lines.push('    style.border-radius: 16');
+    lines.push('  }');
+    lines.push('  dto: {');
+    lines.push('    shape: sql_table');
+    lines.push('    style.fill: "#FFF8E1"');
+    lines.push('  }');
+    lines.push('}');
+  }
+
+  // Names, types and validators may contain characters D2 reads as syntax
+  private quote(text: string, always = false): string {
+    return !always && /^[a-zA-Z0-9_]+$/.test(text) ? text : `"${this.escape(text)}"`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
@@ -0,0 +1,163 @@
+import { ClassInfo, EntityColumnInfo, EntityInfo, EntityRelationInfo, ModuleInfo } from '../types';
+import { DisplayName, getDisplayNames } from './display-names';
+
+// Crow's foot arrowheads for the entity at each end of a relation
+const RELATION_ARROWHEADS: Record<EntityRelationInfo['kind'], [string, string]> = {
+  'one-to-one': ['cf-one', 'cf-one'],
+  'one-to-many': ['cf-one', 'cf-many'],
+  'many-to-one': ['cf-many', 'cf-one'],
+  'many-to-many': ['cf-many', 'cf-many'],
+};
+
+const INVERSE_KINDS: Record<EntityRelationInfo['kind'], EntityRelationInfo['kind']> = {
+  'one-to-one': 'one-to-one',
+  'one-to-many': 'many-to-one',
+  'many-to-one': 'one-to-many',
+  'many-to-many': 'many-to-many',
+};
+
+export class ErdDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By entity and class ID
+
+  generate(entities: EntityInfo[], classes: ClassInfo[], modules: ModuleInfo[]): string {
+    const lines: string[] = [];
+    // Entities last: an entity class is also in the class list, but is labelled among entities
+    this.displayNames = new Map([...getDisplayNames(classes), ...getDisplayNames(modules), ...getDisplayNames(entities)]);
+
+    lines.push('# NestJS Entity Relationship Diagram');
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+
+    for (const entity of entities) {
+      this.addTable(lines, entity);
+    }
+
+    // Draw each relation once: owning sides first, then inverse sides that
+    // have no owning side left to pair with
+    const unpaired = new Map<string, number>();
+    const owningFirst = entities
+      .flatMap(entity => entity.relations.map(relation => ({ entity, relation })))
+      .sort((a, b) => Number(b.relation.joinColumns.length > 0) - Number(a.relation.joinColumns.length > 0));
+
+    for (const { entity, relation } of owningFirst) {
+      const target = this.findEntity(entities, relation);
+      if (!target) continue;
+
+      const kind = entity.id <= target.id ? relation.kind : INVERSE_KINDS[relation.kind];
+      const pairKey = `${[entity.id, target.id].sort().join('|')}:${kind}`;
+      const count = unpaired.get(pairKey) ?? 0;
+      if (relation.joinColumns.length === 0 && count > 0) {
+        unpaired.set(pairKey, count - 1);
+        continue;
+      }
+      unpaired.set(pairKey, count + 1);
+
+      const [sourceArrowhead, targetArrowhead] = RELATION_ARROWHEADS[relation.kind];
+      lines.push(`${this.getDisplayName(entity).key} -> ${this.getDisplayName(target).key}: ${relation.property} {`);
+      lines.push(`  source-arrowhead.shape: ${sourceArrowhead}`);
+      lines.push(`  target-arrowhead.shape: ${targetArrowhead}`);
+      lines.push('}');
+    }
+    lines.push('');
+
+    // Repositories and services that inject each entity
+    const users = this.findEntityUsers(entities, classes);
+    if (users.length > 0) {
+      lines.push('services: Repositories and Services {');
+      lines.push('  style.stroke-dash: 3');
+      lines.push('  style.border-radius: 32');
+      lines.push('  label.near: bottom-left');
+      lines.push('');
+      for (const classInfo of new Set(users.map(user => user.classInfo))) {
+        const { key, label } = this.getDisplayName(classInfo);
+        const module = classInfo.moduleId ? this.displayNames.get(classInfo.moduleId) : undefined;
+        lines.push(`  ${key}: "${label}" {`);
+        lines.push('    style.fill: "#F5F5F5"');
+        lines.push('    style.border-radius: 16');
+        if (module) {
+          lines.push(`    tooltip: "${module.label}"`);
+        }
+        lines.push('  }');
+      }
+      lines.push('}');
+      lines.push('');
+
+      for (const { classInfo, entity, via } of users) {
+        lines.push(`services.${this.getDisplayName(classInfo).key} -> ${this.getDisplayName(entity).key}: "${via}" {style.stroke-dash: 3}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private addTable(lines: string[], entity: EntityInfo): void {
+    const { key, label } = this.getDisplayName(entity);
+    const tableLabel = entity.tableName && entity.tableName !== entity.name ? `${label} (${entity.tableName})` : label;
+
+    lines.push(`${key}: "${tableLabel}" {`);
+    lines.push('  shape: sql_table');
+    lines.push(`  tooltip: "${entity.source}"`);
+    for (const column of entity.columns) {
+      const constraints = this.getConstraints(column);
+      const type = `${column.type}${column.isNullable ? '?' : ''}`;
+      const row = `  ${this.quote(column.name)}: ${this.quote(type)}`;
+      lines.push(constraints.length > 0 ? `${row} {constraint: [${constraints.join('; ')}]}` : row);
+    }
+    lines.push('}');
+    lines.push('');
+  }
+
+  private getConstraints(column: EntityColumnInfo): string[] {
+    const constraints: string[] = [];
+    if (column.isPrimary) constraints.push('primary_key');
+    if (column.isForeignKey) constraints.push('foreign_key');
+    if (column.isUnique && !column.isPrimary) constraints.push('unique');
+    return constraints;
+  }
+
+  private findEntityUsers(entities: EntityInfo[], classes: ClassInfo[]): { classInfo: ClassInfo; entity: EntityInfo; via: string }[] {
+    const users: { classInfo: ClassInfo; entity: EntityInfo; via: string }[] = [];
+
+    for (const classInfo of classes) {
+      for (const dep of classInfo.dependencies) {
+        if (dep.entity) {
+          const entity = this.findEntity(entities, { target: dep.entity, targetId: dep.entityId });
+          if (entity) {
+            users.push({ classInfo, entity, via: entity.source === 'mongoose' ? '@InjectModel' : '@InjectRepository' });
+          }
+        }
+
+        // Prisma delegates are the model name in camelCase
+        for (const model of dep.prismaModels || []) {
+          const entity = entities.find(e => e.source === 'prisma' && e.name.toLowerCase() === model.toLowerCase());
+          if (entity) {
+            users.push({ classInfo, entity, via: `prisma.${model}` });
+          }
+        }
+      }
+    }
+
+    return users;
+  }
+
+  private findEntity(entities: EntityInfo[], ref: { target: string; targetId?: string }): EntityInfo | undefined {
+    return (ref.targetId ? entities.find(e => e.id === ref.targetId) : undefined)
+      ?? entities.find(e => e.name === ref.target);
+  }
+
+  private getDisplayName(item: EntityInfo | ClassInfo): DisplayName {
+    return this.displayNames.get(item.id) ?? { key: this.sanitizeName(item.name), label: item.name };
+  }
+
+  // Column names and types may contain characters D2 reads as syntax
+  private quote(text: string): string {
+    return /^[a-zA-Z0-9_]+$/.test(text) ? text : `"${text.replace(/"/g, '\\"')}"`;
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
@@ -0,0 +1,198 @@
+import { existsSync, mkdirSync } from 'fs';
+import { ArchitectureGraph, GraphClass, GraphEdge, GraphModule, GraphProvider } from '../analyzers/architecture-graph';
+import { ClassDiagramPaths } from './class-diagram';
+import { getDisplayNames } from './display-names';
+import { withExtension, writeFileIfChanged } from './output-files';
+
+/**
+ * Emits the component and class diagrams in another diagram language,
+ * mirroring ComponentDiagramGenerator and ClassDiagramGenerator.
+ */
+export interface GraphDiagramGenerator {
+  readonly extension: string; // Replaces .d2 in the output file names
+  generateComponents(graph: ArchitectureGraph, containerTitle: string): string;
+  generateClasses(graph: ArchitectureGraph, moduleId?: string): string; // Global diagram without a module
+}
+
+export interface ClassViewGroup {
+  module: GraphModule;
+  classes: GraphClass[];
+  providers: GraphProvider[]; // Injection tokens the module provides
+}
+
+export interface ClassView {
+  groups: ClassViewGroup[]; // One container per module
+  classes: GraphClass[]; // Classes outside any module
+  providers: GraphProvider[]; // Injected tokens no module provides
+  edges: GraphEdge[];
+}
+
+export interface EdgeStyle {
+  color?: string;
+  dashed: boolean;
+  bold: boolean;
+}
+
+export const NODE_COLORS = {
+  component: '#63BEF2',
+  sharedComponent: '#85BBF0', // Modules of monorepo libs
+  injectable: '#e3f2fd',
+  token: '#fff3e0',
+};
+
+/**
+ * Writes the global and per-module class diagrams like
+ * ClassDiagramGenerator.generateAll. Returns the written paths.
+ */
+export function writeClassDiagrams(
+  generator: GraphDiagramGenerator,
+  graph: ArchitectureGraph,
+  outputDir: string,
+  paths: ClassDiagramPaths
+): string[] {
+  const writtenFiles: string[] = [];
+  const classDiagramsDir = `${outputDir}/${paths.componentsDir}`;
+  if (!existsSync(classDiagramsDir)) {
+    mkdirSync(classDiagramsDir, { recursive: true });
+  }
+
+  const globalPath = `${outputDir}/${withExtension(paths.globalDiagram, generator.extension)}`;
+  writeFileIfChanged(globalPath, generator.generateClasses(graph));
+  writtenFiles.push(globalPath);
+
+  const keys = getNodeKeys(graph);
+  for (const module of graph.modules) {
+    const componentPath = `${classDiagramsDir}/${keys.get(module.id)}${generator.extension}`;
+    writeFileIfChanged(componentPath, generator.generateClasses(graph, module.id));
+    writtenFiles.push(componentPath);
+  }
+
+  return writtenFiles;
+}
+
+/**
+ * What the class diagrams show: every class for the global diagram, or, as
+ * in ClassDiagramGenerator.generateForComponent, a module's classes plus
+ * the classes and tokens they depend on, grouped by module.
+ */
+export function getClassView(graph: ArchitectureGraph, moduleId?: string): ClassView {
+  const edges = moduleId === undefined
+    ? graph.edges.filter(edge => edge.kind !== 'import')
+    : getComponentEdges(graph, moduleId);
+  const shown = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+  const classes = graph.classes.filter(c => moduleId === undefined || c.moduleId === moduleId || shown.has(c.id));
+  const providers = graph.providers.filter(p => shown.has(p.id));
+  const moduleIds = new Set(graph.modules.map(module => module.id));
+
+  const groups = graph.modules
+    .map(module => ({
+      module,
+      classes: classes.filter(c => c.moduleId === module.id),
+      providers: providers.filter(p => p.moduleId === module.id),
+    }))
+    .filter(group => group.module.id === moduleId || group.classes.length > 0 || group.providers.length > 0)
+    .sort((a, b) => Number(b.module.id === moduleId) - Number(a.module.id === moduleId));
+
+  return {
+    groups,
+    classes: classes.filter(c => !c.moduleId || !moduleIds.has(c.moduleId)),
+    providers: providers.filter(p => !p.moduleId),
+    edges,
+  };
+}
+
+function getComponentEdges(graph: ArchitectureGraph, moduleId: string): GraphEdge[] {
+  const ownClassIds = new Set(graph.classes.filter(c => c.moduleId === moduleId).map(c => c.id));
+  const dependencies = graph.edges.filter(edge => edge.kind === 'dependency' && ownClassIds.has(edge.from));
+  const tokenIds = new Set(dependencies.map(edge => edge.to).filter(id => graph.providers.some(p => p.id === id)));
+
+  return [
+    ...dependencies,
+    ...graph.edges.filter(edge => (edge.kind === 'provides' || edge.kind === 'inject') && tokenIds.has(edge.from)),
+    ...graph.edges.filter(edge => edge.kind === 'middleware' && edge.moduleId === moduleId),
+  ];
+}
+
+/**
+ * Unique identifiers for modules, classes and tokens, shared by one diagram.
+ */
+export function getNodeKeys(graph: ArchitectureGraph): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const [id, { key }] of [...getDisplayNames(graph.classes), ...getDisplayNames(graph.modules)]) {
+    keys.set(id, key);
+  }
+  for (const provider of graph.providers) {
+    const moduleKey = provider.moduleId ? `${keys.get(provider.moduleId)}_` : '';
+    keys.set(provider.id, sanitizeName(`${moduleKey}token_${provider.token}`));
+  }
+  return keys;
+}
+
+export function getNodeLabels(graph: ArchitectureGraph): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const [id, { label }] of [...getDisplayNames(graph.classes), ...getDisplayNames(graph.modules)]) {
+    labels.set(id, label);
+  }
+  for (const provider of graph.providers) {
+    labels.set(provider.id, getTokenLabel(provider));
+  }
+  return labels;
+}
+
+export function getTokenLabel(provider: GraphProvider): string {
+  if (provider.kind === 'useFactory') {
+    return `${provider.token} ${provider.factory ? `(${provider.factory}())` : '(useFactory)'}`;
+  }
+  return provider.kind === 'useValue' ? `${provider.token} (useValue)` : provider.token;
+}
+
+export function getEdgeLabel(edge: GraphEdge): string {
+  let label = edge.label;
+  if (edge.isForwardRef) label += ' - forwardRef';
+  if (edge.inCycle) label += ' (cycle)';
+  if (edge.isUnresolved) label += ' (unresolved)';
+  return label;
+}
+
+// The colours of the D2 diagrams: unresolved red, cycles magenta, forwardRef imports orange
+export function getEdgeStyle(edge: GraphEdge): EdgeStyle {
+  if (edge.kind === 'middleware') return { color: '#00897B', dashed: true, bold: false };
+
+  const dashed = edge.kind === 'import' ? !!edge.isForwardRef : !!(edge.isOptional || edge.isForwardRef);
+  if (edge.isUnresolved) return { color: '#D32F2F', dashed, bold: true };
+  if (edge.inCycle) return { color: '#AD1457', dashed, bold: true };
+  if (edge.kind === 'import' && edge.isForwardRef) return { color: '#D9822B', dashed, bold: false };
+  return { dashed, bold: false };
+}
+
+/**
+ * The class members shown in the class diagrams: public properties,
+ * injected dependencies, then public methods.
+ */
+export function getClassMembers(
+  classInfo: GraphClass,
+  includeAttributes: boolean,
+  includeMethods: boolean
+): { properties: string[]; dependencies: string[]; methods: string[] } {
+  return {
+    properties: includeAttributes
+      ? classInfo.properties.filter(p => !p.isPrivate).map(p => `${p.isReadonly ? 'readonly ' : ''}${p.name}: ${p.type}`)
+      : [],
+    dependencies: classInfo.dependencies.map(dep =>
+      `${dep.name}${dep.isOptional ? '?' : ''}: ${dep.type}${dep.token ? ` (@Inject('${dep.token}'))` : ''}`
+    ),
+    methods: includeMethods
+      ? classInfo.methods.filter(m => !m.isPrivate).map(m => `${m.name}(${m.parameters.join(', ')}): ${m.returnType}`)
+      : [],
+  };
+}
+
+export function isSharedModule(graph: ArchitectureGraph, module: GraphModule): boolean {
+  return graph.projects.some(p => p.name === module.project && p.type === 'library');
+}
+
+export function sanitizeName(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9_]/g, '_')
+    .replace(/^(\d)/, '_$1');
+}
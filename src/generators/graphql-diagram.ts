@@ -0,0 +1,213 @@
+import { ClassInfo, GraphQLFieldInfo, GraphQLOperationInfo, GraphQLTypeInfo, GraphQLTypeRef, ModuleInfo } from '../types';
+import { DependencyGraph } from '../analyzers/dependency-graph';
+import { DisplayName, getDisplayNames } from './display-names';
+
+const ROOT_TYPES: Record<Exclude<GraphQLOperationInfo['kind'], 'field'>, string> = {
+  query: 'Query',
+  mutation: 'Mutation',
+  subscription: 'Subscription',
+};
+
+const TYPE_COLORS: Record<GraphQLTypeInfo['kind'], string> = {
+  object: '#FCE4EC',
+  input: '#FFF8E1',
+  interface: '#EDE7F6',
+};
+
+export class GraphQLDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By class ID
+
+  generate(classes: ClassInfo[], modules: ModuleInfo[]): string {
+    const lines: string[] = [];
+    const graph = new DependencyGraph(modules, classes);
+    this.displayNames = getDisplayNames(classes);
+
+    const types = classes.filter(c => c.graphqlType);
+    const resolvers = classes.filter(c => c.resolver);
+
+    lines.push('# NestJS GraphQL Schema');
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+    this.addClassDefinitions(lines);
+    lines.push('');
+
+    // Schema: code-first types, plus the fields added by @ResolveField
+    lines.push('schema: GraphQL Schema {');
+    lines.push('  class: [container-expanded]');
+    lines.push('');
+    const fieldsByType = new Map<ClassInfo, GraphQLFieldInfo[]>();
+    for (const typeClass of types) {
+      const fields = [...typeClass.graphqlType!.fields];
+      for (const resolver of resolvers) {
+        if (this.findType(types, resolver.resolver!) !== typeClass) continue;
+        for (const method of resolver.methods) {
+          if (method.graphql?.kind === 'field' && !fields.some(f => f.name === method.graphql!.name)) {
+            fields.push(method.graphql);
+          }
+        }
+      }
+      fieldsByType.set(typeClass, fields);
+      this.addTypeNode(lines, typeClass.graphqlType!.name, fields.map(f => `${f.name}: ${this.formatType(f, types)}`), TYPE_COLORS[typeClass.graphqlType!.kind]);
+    }
+
+    // Root types collect the operations of every resolver
+    for (const [kind, rootName] of Object.entries(ROOT_TYPES)) {
+      const operations = resolvers.flatMap(r => r.methods).map(m => m.graphql).filter(op => op?.kind === kind);
+      if (operations.length === 0) continue;
+      this.addTypeNode(lines, rootName, operations.map(op => `${op!.name}: ${this.formatType(op!, types)}`), '#E1F5FE');
+    }
+    lines.push('}');
+    lines.push('');
+
+    // Relations between types
+    const edges: string[] = [];
+    for (const [typeClass, fields] of fieldsByType) {
+      for (const field of fields) {
+        const target = this.findType(types, field);
+        if (target) {
+          edges.push(`${this.typePath(typeClass)} -> ${this.typePath(target)}: "${field.name}${field.isList ? ' [*]' : ''}"`);
+        }
+      }
+    }
+
+    if (resolvers.length > 0) {
+      lines.push('resolvers: Resolvers {');
+      lines.push('  class: [container-expanded]');
+      lines.push('');
+      for (const resolver of resolvers) {
+        this.addResolverNode(lines, resolver, types);
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
+    const services = new Map<string, ClassInfo>();
+    for (const resolver of resolvers) {
+      const resolverPath = `resolvers.${this.getDisplayName(resolver).key}`;
+
+      // The parent type, then every other type its operations return
+      const parent = this.findType(types, resolver.resolver!);
+      if (parent) {
+        edges.push(`${resolverPath} -> ${this.typePath(parent)}: resolves {style.stroke-width: 3}`);
+      }
+      const returned = new Map<ClassInfo, string[]>();
+      for (const method of resolver.methods) {
+        const target = method.graphql ? this.findType(types, method.graphql) : undefined;
+        if (!target || target === parent) continue;
+        returned.set(target, [...(returned.get(target) || []), method.graphql!.name]);
+      }
+      for (const [target, operations] of returned) {
+        edges.push(`${resolverPath} -> ${this.typePath(target)}: ${operations.join(', ')}`);
+      }
+
+      for (const dep of resolver.dependencies) {
+        const target = graph.resolve(resolver, dep).target;
+        if (!target) continue;
+        services.set(target.id, target);
+        edges.push(`${resolverPath} -> services.${this.getDisplayName(target).key}: injects {style.stroke-dash: 3}`);
+      }
+    }
+
+    if (services.size > 0) {
+      lines.push('services: Services {');
+      lines.push('  class: [container-expanded]');
+      lines.push('');
+      for (const service of services.values()) {
+        const { key, label } = this.getDisplayName(service);
+        lines.push(`  ${key}: "${label}" {`);
+        lines.push('    class: [service]');
+        lines.push('  }');
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
+    lines.push(...edges);
+
+    return lines.join('\n');
+  }
+
+  private addTypeNode(lines: string[], name: string, fields: string[], fill: string): void {
+    lines.push(`  ${this.sanitizeName(name)}: "${name}" {`);
+    lines.push('    shape: class');
+    lines.push(`    style.fill: "${fill}"`);
+    for (const field of fields) {
+      lines.push(`    ${this.escapeBrackets(field)}`);
+    }
+    lines.push('  }');
+    lines.push('');
+  }
+
+  private addResolverNode(lines: string[], resolver: ClassInfo, types: ClassInfo[]): void {
+    const { key, label } = this.getDisplayName(resolver);
+    lines.push(`  ${key}: "${label}" {`);
+    lines.push('    shape: class');
+    lines.push('    class: [resolver]');
+    for (const method of resolver.methods) {
+      const operation = method.graphql;
+      if (!operation) continue;
+      const parent = this.findType(types, resolver.resolver!)?.graphqlType!.name ?? resolver.resolver!.type ?? 'field';
+      const owner = operation.kind === 'field' ? parent : ROOT_TYPES[operation.kind];
+      lines.push(`    ${this.escapeBrackets(`${owner}.${operation.name}(): ${this.formatType(operation, types)}`)}`);
+    }
+    lines.push('  }');
+    lines.push('');
+  }
+
+  /**
+   * Types are matched by class when the reference resolved to one, by
+   * schema name otherwise (e.g. schema-first @Resolver('User')).
+   */
+  private findType(types: ClassInfo[], ref: { type?: string; typeId?: string }): ClassInfo | undefined {
+    if (ref.typeId) return types.find(t => t.id === ref.typeId);
+    return types.find(t => t.graphqlType!.name === ref.type || t.name === ref.type);
+  }
+
+  private typePath(typeClass: ClassInfo): string {
+    return `schema.${this.sanitizeName(typeClass.graphqlType!.name)}`;
+  }
+
+  // SDL notation: [Post!]! for a required list of posts, using schema names
+  private formatType(ref: GraphQLTypeRef, types: ClassInfo[]): string {
+    const name = this.findType(types, ref)?.graphqlType!.name ?? ref.type;
+    const type = ref.isList ? `[${name}!]` : name;
+    return ref.isNullable ? type : `${type}!`;
+  }
+
+  private escapeBrackets(text: string): string {
+    return text.replace(/\[/g, '\\[').replace(/\]/g, '\\]');
+  }
+
+  private getDisplayName(classInfo: ClassInfo): DisplayName {
+    return this.displayNames.get(classInfo.id) ?? { key: this.sanitizeName(classInfo.name), label: classInfo.name };
+  }
+
+  private addClassDefinitions(lines: string[]): void {
+    lines.push('classes: {');
+    lines.push('  container-expanded: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 32');
+    lines.push('    style.stroke-dash: 3');
+    lines.push('    label.near: bottom-left');
+    lines.push('    style.stroke: "#666666"');
+    lines.push('    style.font-color: "#333333"');
+    lines.push('  }');
+    lines.push('  resolver: {');
+    lines.push('    style.fill: "#E10098"');
+    lines.push('    style.font-color: "#FFFFFF"');
+    lines.push('  }');
+    lines.push('  service: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#F5F5F5"');
+    lines.push('    style.border-radius: 16');
+    lines.push('  }');
+    lines.push('}');
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
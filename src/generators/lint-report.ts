@@ -0,0 +1,56 @@
+import { LintViolation } from '../types';
+import { LintRules, describeRules } from '../lint-rules';
+import { toRelativeId, toRelativePath } from '../analyzers/symbol-ids';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Reports `nest-d2 lint` violations as JSON, or as SARIF for code scanning
+ * annotations in CI. Paths are relative to the project root.
+ */
+export class LintReportGenerator {
+  constructor(private projectPath: string, private rules: LintRules) {}
+
+  generateJson(violations: LintViolation[]): string {
+    const report = {
+      rules: describeRules(this.rules),
+      violations: violations.map(violation => ({
+        ...violation,
+        from: toRelativeId(this.projectPath, violation.from),
+        to: toRelativeId(this.projectPath, violation.to),
+        filePath: toRelativePath(this.projectPath, violation.filePath),
+      })),
+    };
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+
+  generateSarif(violations: LintViolation[]): string {
+    const rules = describeRules(this.rules);
+    const sarif = {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'nest-d2',
+            informationUri: 'https://github.com/TSYF/NestJS-D2-Diagrams',
+            rules: rules.map(rule => ({ id: rule.id, shortDescription: { text: rule.description } })),
+          },
+        },
+        results: violations.map(violation => ({
+          ruleId: violation.rule,
+          ruleIndex: rules.findIndex(rule => rule.id === violation.rule),
+          level: violation.severity,
+          message: { text: violation.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: toRelativePath(this.projectPath, violation.filePath), uriBaseId: '%SRCROOT%' },
+              region: { startLine: violation.line ?? 1 },
+            },
+          }],
+        })),
+      }],
+    };
+    return `${JSON.stringify(sarif, null, 2)}\n`;
+  }
+}
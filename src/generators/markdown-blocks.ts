@@ -0,0 +1,13 @@
+/**
+ * Opens a node whose label is a D2 markdown block string, up to the `{` of
+ * its attributes. A block ends at the first run of pipes as long as its
+ * opening one, so text containing pipes gets a longer delimiter.
+ */
+export function openMarkdownNode(lines: string[], key: string, markdown: string[]): void {
+  const longestRun = Math.max(0, ...markdown.flatMap(line => line.match(/\|+/g) ?? []).map(run => run.length));
+  const delimiter = '|'.repeat(longestRun + 1);
+
+  lines.push(`${key}: ${delimiter}md`);
+  lines.push(...markdown);
+  lines.push(`${delimiter} {`);
+}
@@ -0,0 +1,160 @@
+import { ArchitectureGraph, GraphClass, GraphModule, GraphProvider } from '../analyzers/architecture-graph';
+import {
+  GraphDiagramGenerator,
+  NODE_COLORS,
+  getClassMembers,
+  getClassView,
+  getEdgeLabel,
+  getEdgeStyle,
+  getNodeKeys,
+  getNodeLabels,
+  isSharedModule,
+  sanitizeName,
+} from './graph-views';
+
+/**
+ * Mermaid flowchart and class diagram counterparts of the D2 diagrams,
+ * for Markdown renderers such as GitHub and GitLab.
+ */
+export class MermaidDiagramGenerator implements GraphDiagramGenerator {
+  readonly extension = '.mmd';
+
+  constructor(
+    private includeAttributes: boolean = true,
+    private includeMethods: boolean = true
+  ) {}
+
+  generateComponents(graph: ArchitectureGraph, containerTitle: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const lines: string[] = [];
+
+    lines.push('%% NestJS Component Diagram');
+    lines.push('graph LR');
+    lines.push(`  classDef component fill:${NODE_COLORS.component},stroke:#3C7FC0,color:#000`);
+    lines.push(`  classDef shared-component fill:${NODE_COLORS.sharedComponent},stroke:#3C7FC0,color:#000`);
+    lines.push('');
+
+    const addModule = (module: GraphModule, indent: string) => {
+      let label = `<b>${this.escape(labels.get(module.id)!)}</b>`;
+      if (module.technology) label += `<br/>[Component: ${this.escape(module.technology)}]`;
+      if (module.description) label += `<br/><br/>${this.escape(module.description).split('\n').join('<br/>')}`;
+      lines.push(`${indent}${keys.get(module.id)}["${label}"]:::${isSharedModule(graph, module) ? 'shared-component' : 'component'}`);
+    };
+
+    const containerKind = graph.projects.length > 0 ? 'Software System' : 'Container: NestJS';
+    lines.push(`  subgraph ${sanitizeName(containerTitle.replace(/ /g, ''))}["<b>${this.escape(containerTitle)}</b><br/>[${containerKind}]"]`);
+    if (graph.projects.length > 0) {
+      // Monorepos get one subgraph per app and per lib
+      for (const project of graph.projects) {
+        const projectModules = graph.modules.filter(m => m.project === project.name);
+        if (projectModules.length === 0) continue;
+
+        const kind = project.type === 'library' ? 'Library' : 'Container';
+        lines.push(`    subgraph project_${sanitizeName(project.name)}["${this.escape(project.name)} [${kind}: NestJS]"]`);
+        projectModules.forEach(module => addModule(module, '      '));
+        lines.push('    end');
+      }
+      graph.modules.filter(m => !m.project).forEach(module => addModule(module, '    '));
+    } else {
+      graph.modules.forEach(module => addModule(module, '    '));
+    }
+    lines.push('  end');
+    lines.push('');
+
+    this.addEdges(lines, graph.edges.filter(edge => edge.kind === 'import'), keys);
+
+    return lines.join('\n');
+  }
+
+  generateClasses(graph: ArchitectureGraph, moduleId?: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const view = getClassView(graph, moduleId);
+    const module = graph.modules.find(m => m.id === moduleId);
+    const lines: string[] = [];
+
+    lines.push(`%% NestJS Class Diagram - ${module ? module.name : 'Global'}`);
+    lines.push('classDiagram');
+    lines.push('  direction TB');
+    lines.push('');
+
+    for (const group of view.groups) {
+      lines.push(`  namespace ${keys.get(group.module.id)} {`);
+      group.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, '    '));
+      group.providers.forEach(provider => this.addToken(lines, provider, keys, labels, '    '));
+      lines.push('  }');
+    }
+    view.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, '  '));
+    view.providers.forEach(provider => this.addToken(lines, provider, keys, labels, '  '));
+    lines.push('');
+
+    // Class diagrams have no per-edge styling, so dashes are all that mark optional edges
+    for (const edge of view.edges) {
+      const arrow = getEdgeStyle(edge).dashed ? '..>' : '-->';
+      lines.push(`  ${keys.get(edge.from)} ${arrow} ${keys.get(edge.to)} : ${this.escapeMember(getEdgeLabel(edge))}`);
+    }
+    lines.push('');
+
+    for (const classInfo of [...view.groups.flatMap(group => group.classes), ...view.classes]) {
+      if (classInfo.isInjectable) {
+        lines.push(`  style ${keys.get(classInfo.id)} fill:${NODE_COLORS.injectable}`);
+      }
+    }
+    for (const provider of [...view.groups.flatMap(group => group.providers), ...view.providers]) {
+      lines.push(`  style ${keys.get(provider.id)} fill:${NODE_COLORS.token}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private addClass(lines: string[], classInfo: GraphClass, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    const { properties, dependencies, methods } = getClassMembers(classInfo, this.includeAttributes, this.includeMethods);
+
+    lines.push(`${indent}class ${keys.get(classInfo.id)}["${this.escape(labels.get(classInfo.id)!)}"] {`);
+    if (classInfo.stereotype) {
+      lines.push(`${indent}  <<${this.escapeMember(classInfo.stereotype)}>>`);
+    }
+    for (const member of [...properties, ...dependencies, ...methods]) {
+      lines.push(`${indent}  +${this.escapeMember(member)}`);
+    }
+    lines.push(`${indent}}`);
+  }
+
+  private addToken(lines: string[], provider: GraphProvider, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    lines.push(`${indent}class ${keys.get(provider.id)}["${this.escape(labels.get(provider.id)!)}"] {`);
+    lines.push(`${indent}  <<token>>`);
+    lines.push(`${indent}}`);
+  }
+
+  private addEdges(lines: string[], edges: ArchitectureGraph['edges'], keys: Map<string, string>): void {
+    edges.forEach((edge, index) => {
+      const style = getEdgeStyle(edge);
+      const arrow = style.bold ? '==>' : style.dashed ? '-.->' : '-->';
+      lines.push(`  ${keys.get(edge.from)} ${arrow}|"${this.escape(getEdgeLabel(edge))}"| ${keys.get(edge.to)}`);
+
+      if (style.color) {
+        const dash = style.dashed ? ',stroke-dasharray:5 5' : '';
+        lines.push(`  linkStyle ${index} stroke:${style.color}${style.bold ? ',stroke-width:3px' : ''}${dash}`);
+      }
+    });
+  }
+
+  // Quotes would end the label early; Mermaid reads #quot; as an entity
+  private escape(text: string): string {
+    return text
+      .replace(/"/g, '#quot;')
+      .replace(/</g, '#lt;')
+      .replace(/>/g, '#gt;');
+  }
+
+  // Members allow no braces, and generics use ~ instead of angle brackets.
+  // Function type arrows go first, so only the brackets of generics are left.
+  private escapeMember(text: string): string {
+    return text
+      .replace(/=>/g, '→')
+      .replace(/[<>]/g, '~')
+      .replace(/[{}]/g, '')
+      .replace(/\s+/g, ' ');
+  }
+}
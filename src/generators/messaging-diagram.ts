@@ -0,0 +1,176 @@
+import { ClassInfo, MessageInfo, ModuleInfo } from '../types';
+import { MessageChannel, MessageParticipant } from '../analyzers/messaging-analyzer';
+import { DisplayName, getDisplayNames } from './display-names';
+
+const CHANNEL_CLASSES: Record<MessageInfo['style'], string> = {
+  request: 'message-pattern',
+  event: 'event',
+  job: 'queue',
+};
+
+const TRANSPORT_LABELS: Record<MessageInfo['transport'], string> = {
+  microservice: 'Microservice',
+  'event-emitter': 'EventEmitter2',
+  queue: 'Bull',
+};
+
+export class MessagingDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By class and module ID
+
+  generate(channels: MessageChannel[], classes: ClassInfo[], modules: ModuleInfo[]): string {
+    const lines: string[] = [];
+    this.displayNames = new Map([...getDisplayNames(classes), ...getDisplayNames(modules)]);
+
+    lines.push('# NestJS Messaging Diagram');
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+    this.addClassDefinitions(lines);
+    lines.push('');
+
+    // Group the classes taking part in any channel by module
+    const participants = new Map<string, ClassInfo>();
+    for (const channel of channels) {
+      for (const { classInfo } of [...channel.producers, ...channel.consumers]) {
+        participants.set(classInfo.id, classInfo);
+      }
+    }
+    const classesByModule = new Map<string, ClassInfo[]>();
+    for (const classInfo of participants.values()) {
+      const moduleId = classInfo.moduleId || '';
+      if (!classesByModule.has(moduleId)) {
+        classesByModule.set(moduleId, []);
+      }
+      classesByModule.get(moduleId)!.push(classInfo);
+    }
+
+    for (const [moduleId, moduleClasses] of classesByModule) {
+      const module = this.displayNames.get(moduleId);
+      const indent = module ? '  ' : '';
+
+      if (module) {
+        lines.push(`${module.key}: ${module.label} {`);
+        lines.push('  class: [container-expanded]');
+        lines.push('');
+      }
+      for (const classInfo of moduleClasses) {
+        const { key, label } = this.getDisplayName(classInfo);
+        lines.push(`${indent}${key}: "${label}" {`);
+        lines.push(`${indent}  class: [participant]`);
+        lines.push(`${indent}}`);
+      }
+      if (module) {
+        lines.push('}');
+      }
+      lines.push('');
+    }
+
+    // Channels sit between modules, with producers on one side and consumers on the other
+    const usedKeys = new Set<string>();
+    for (const channel of channels) {
+      const channelKey = this.getChannelKey(channel, usedKeys);
+      lines.push(`${channelKey}: "${this.escape(this.getChannelLabel(channel))}" {`);
+      lines.push(`  class: [${CHANNEL_CLASSES[channel.style]}]`);
+      lines.push(`  tooltip: "${TRANSPORT_LABELS[channel.transport]} ${channel.style}"`);
+      if (channel.status !== 'ok') {
+        lines.push('  style.stroke: "#D32F2F"');
+        lines.push('  style.stroke-width: 3');
+      }
+      lines.push('}');
+
+      for (const producer of this.unique(channel.producers)) {
+        lines.push(`${this.classPath(producer.classInfo)} -> ${channelKey}: ${this.producerLabel(producer.message)}`);
+      }
+      for (const consumer of this.unique(channel.consumers)) {
+        lines.push(`${channelKey} -> ${this.classPath(consumer.classInfo)}: ${consumer.message.method}()`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private getChannelLabel(channel: MessageChannel): string {
+    if (channel.status === 'unhandled') return `${channel.channel} (no handler)`;
+    if (channel.status === 'unproduced') return `${channel.channel} (no producer)`;
+    return channel.channel;
+  }
+
+  private producerLabel(message: MessageInfo): string {
+    if (message.style === 'job') {
+      return message.job ? `add('${this.escape(message.job)}')` : 'add()';
+    }
+    return message.style === 'request' ? 'send()' : 'emit()';
+  }
+
+  // One edge per class and method, however often the method sends
+  private unique(participants: MessageParticipant[]): MessageParticipant[] {
+    const seen = new Set<string>();
+    return participants.filter(({ classInfo, message }) => {
+      const key = `${classInfo.id}:${message.method}:${message.job ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private getChannelKey(channel: MessageChannel, usedKeys: Set<string>): string {
+    const base = this.sanitizeName(`${channel.style}_${channel.channel}`);
+    let key = base;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${base}_${suffix}`;
+    }
+    usedKeys.add(key);
+    return key;
+  }
+
+  private classPath(classInfo: ClassInfo): string {
+    const className = this.getDisplayName(classInfo).key;
+    const module = classInfo.moduleId ? this.displayNames.get(classInfo.moduleId) : undefined;
+    return module ? `${module.key}.${className}` : className;
+  }
+
+  private getDisplayName(classInfo: ClassInfo): DisplayName {
+    return this.displayNames.get(classInfo.id) ?? { key: this.sanitizeName(classInfo.name), label: classInfo.name };
+  }
+
+  private addClassDefinitions(lines: string[]): void {
+    lines.push('classes: {');
+    lines.push('  container-expanded: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 32');
+    lines.push('    style.stroke-dash: 3');
+    lines.push('    label.near: bottom-left');
+    lines.push('    style.stroke: "#666666"');
+    lines.push('    style.font-color: "#333333"');
+    lines.push('  }');
+    lines.push('  participant: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#e3f2fd"');
+    lines.push('    style.border-radius: 16');
+    lines.push('  }');
+    lines.push('  message-pattern: {');
+    lines.push('    shape: parallelogram');
+    lines.push('    style.fill: "#FFF3E0"');
+    lines.push('  }');
+    lines.push('  event: {');
+    lines.push('    shape: oval');
+    lines.push('    style.fill: "#E8F5E9"');
+    lines.push('  }');
+    lines.push('  queue: {');
+    lines.push('    shape: queue');
+    lines.push('    style.fill: "#F3E5F5"');
+    lines.push('  }');
+    lines.push('}');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/"/g, '\\"');
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
@@ -0,0 +1,110 @@
+import { ArchitectureMetrics, ClassInfo, ModuleInfo } from '../types';
+import { toRelativeId } from '../analyzers/symbol-ids';
+import { getDisplayNames } from './display-names';
+
+export interface MetricsReportOptions {
+  top: number; // Classes listed in the table, by injection count
+  maxInjections: number; // Classes injecting more are flagged
+}
+
+/**
+ * Prints `nest-d2 metrics` as text tables, or as JSON with paths relative
+ * to the project root.
+ */
+export class MetricsReportGenerator {
+  private labels = new Map<string, string>(); // By module and class ID
+
+  constructor(private projectPath: string, modules: ModuleInfo[], classes: ClassInfo[]) {
+    for (const [id, { label }] of [...getDisplayNames(modules), ...getDisplayNames(classes)]) {
+      this.labels.set(id, label);
+    }
+  }
+
+  generateTable(metrics: ArchitectureMetrics, options: MetricsReportOptions): string {
+    const lines: string[] = [];
+
+    lines.push('Modules (Ca: imported by, Ce: imports, I: instability Ce / (Ca + Ce))');
+    lines.push('');
+    lines.push(...this.formatTable(
+      ['Module', 'Providers', 'Controllers', 'Ca', 'Ce', 'I'],
+      metrics.modules.map(module => [
+        this.labels.get(module.moduleId) ?? module.name,
+        String(module.providers),
+        String(module.controllers),
+        String(module.afferentCoupling),
+        String(module.efferentCoupling),
+        module.instability === undefined ? '-' : module.instability.toFixed(2),
+      ])
+    ));
+
+    const unusedExports = metrics.modules.filter(module => module.unusedExports.length > 0);
+    if (unusedExports.length > 0) {
+      lines.push('');
+      lines.push('Exported but not used by any other module:');
+      for (const module of unusedExports) {
+        lines.push(`  ${this.labels.get(module.moduleId) ?? module.name}: ${module.unusedExports.join(', ')}`);
+      }
+    }
+
+    const unusedImports = metrics.modules.filter(module => module.unusedImports.length > 0);
+    if (unusedImports.length > 0) {
+      lines.push('');
+      lines.push('Imported but none of their exports injected:');
+      for (const module of unusedImports) {
+        lines.push(`  ${this.labels.get(module.moduleId) ?? module.name}: ${module.unusedImports.join(', ')}`);
+      }
+    }
+
+    const classes = metrics.classes.filter(classMetrics => classMetrics.injections > 0);
+    const shown = classes.slice(0, options.top);
+    lines.push('');
+    lines.push(`Classes by constructor injections${classes.length > shown.length ? ` (top ${shown.length} of ${classes.length})` : ''}`);
+    lines.push('');
+    lines.push(...this.formatTable(
+      ['Class', 'Module', 'Injections', ''],
+      shown.map(classMetrics => [
+        this.labels.get(classMetrics.classId) ?? classMetrics.name,
+        classMetrics.moduleId ? this.labels.get(classMetrics.moduleId) ?? '' : '-',
+        String(classMetrics.injections),
+        classMetrics.injections > options.maxInjections ? '⚠' : '',
+      ]),
+      2
+    ));
+
+    const overLimit = classes.filter(classMetrics => classMetrics.injections > options.maxInjections).length;
+    if (overLimit > 0) {
+      lines.push('');
+      lines.push(`⚠ ${overLimit} classes inject more than ${options.maxInjections} dependencies`);
+    }
+
+    return lines.join('\n');
+  }
+
+  generateJson(metrics: ArchitectureMetrics, options: MetricsReportOptions): string {
+    const report = {
+      modules: metrics.modules.map(module => ({
+        ...module,
+        moduleId: toRelativeId(this.projectPath, module.moduleId),
+        instability: module.instability ?? null,
+      })),
+      classes: metrics.classes.map(classMetrics => ({
+        ...classMetrics,
+        classId: toRelativeId(this.projectPath, classMetrics.classId),
+        moduleId: classMetrics.moduleId && toRelativeId(this.projectPath, classMetrics.moduleId),
+        exceedsMaxInjections: classMetrics.injections > options.maxInjections,
+      })),
+    };
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+
+  // The first nameColumns columns are left-aligned, the numbers after them right-aligned
+  private formatTable(headers: string[], rows: string[][], nameColumns = 1): string[] {
+    const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+    const format = (cells: string[]) => cells
+      .map((cell, column) => column < nameColumns ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+    return [format(headers), ...rows.map(format)];
+  }
+}
@@ -0,0 +1,24 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+/**
+ * Writes a diagram unless the file already holds the same content, so
+ * watchers on the output (such as `d2 --watch`) only see real changes.
+ * Returns whether the file was written.
+ */
+export function writeFileIfChanged(filePath: string, content: string): boolean {
+  if (existsSync(filePath) && readFileSync(filePath, 'utf-8') === content) {
+    return false;
+  }
+  writeFileSync(filePath, content);
+  return true;
+}
+
+// Diagram links point at the rendered SVG, the only format with clickable links
+export function toSvgLink(d2File: string): string {
+  return `./${d2File.replace(/\.d2$/, '')}.svg`;
+}
+
+// Output file names are configured with .d2, other formats swap the extension
+export function withExtension(d2File: string, extension: string): string {
+  return `${d2File.replace(/\.d2$/, '')}${extension}`;
+}
@@ -0,0 +1,76 @@
+import { PipelineStep, RequestPipeline } from '../types';
+
+interface Participant {
+  key: string;
+  label: string;
+  call: string; // Message sent when the request reaches this participant
+}
+
+export class PipelineDiagramGenerator {
+  generate(pipeline: RequestPipeline): string {
+    const lines: string[] = [];
+    const { endpoint } = pipeline;
+    const request = `${endpoint.httpMethod} ${endpoint.path}`;
+
+    lines.push(`# NestJS Request Pipeline - ${request}`);
+    lines.push('');
+    lines.push('shape: sequence_diagram');
+    lines.push('');
+
+    const middleware = this.toParticipants('middleware', pipeline.middleware, 'use()');
+    const guards = this.toParticipants('guard', pipeline.guards, 'canActivate()');
+    const interceptors = this.toParticipants('interceptor', pipeline.interceptors, 'intercept()');
+    const pipes = this.toParticipants('pipe', pipeline.pipes, 'transform()');
+    const filters = this.toParticipants('filter', pipeline.filters, 'catch()');
+    const handler: Participant = {
+      key: 'handler',
+      label: `${endpoint.controller}.${endpoint.handler}()`,
+      call: `${endpoint.handler}()`,
+    };
+
+    // Declare participants in execution order so they appear left to right
+    lines.push('client: Client');
+    for (const participant of [...middleware, ...guards, ...interceptors, ...pipes, handler, ...filters]) {
+      lines.push(`${participant.key}: "${participant.label}"`);
+    }
+    lines.push('');
+
+    // Request path: middleware, guards, interceptors (before), pipes, then the handler
+    let previous = 'client';
+    for (const participant of [...middleware, ...guards, ...interceptors, ...pipes, handler]) {
+      const label = previous === 'client' ? request : participant.call;
+      lines.push(`${previous} -> ${participant.key}: "${label}"`);
+      previous = participant.key;
+    }
+
+    // Response path: interceptors unwind in reverse order
+    for (const interceptor of [...interceptors].reverse()) {
+      lines.push(`${previous} -> ${interceptor.key}: "response (after)"`);
+      previous = interceptor.key;
+    }
+    lines.push(`${previous} -> client: response`);
+
+    if (filters.length > 0) {
+      lines.push('');
+      lines.push('on_exception: "On exception (first matching @Catch)" {');
+      for (const filter of filters) {
+        lines.push(`  handler -> ${filter.key}: throws`);
+        lines.push(`  ${filter.key} -> client: error response`);
+      }
+      lines.push('}');
+    }
+
+    return lines.join('\n');
+  }
+
+  private toParticipants(kind: string, steps: PipelineStep[], call: string): Participant[] {
+    return steps.map((step, index) => {
+      const source = step.source ? ` via ${step.source}` : '';
+      return {
+        key: `${kind}_${index}`,
+        label: `${step.name} (${step.scope} ${kind}${source})`.replace(/"/g, '\\"'),
+        call,
+      };
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { ArchitectureGraph, GraphClass, GraphModule, GraphProvider } from '../analyzers/architecture-graph';
+import {
+  EdgeStyle,
+  GraphDiagramGenerator,
+  NODE_COLORS,
+  getClassMembers,
+  getClassView,
+  getEdgeLabel,
+  getEdgeStyle,
+  getNodeKeys,
+  getNodeLabels,
+  isSharedModule,
+} from './graph-views';
+
+/**
+ * PlantUML component and class diagram counterparts of the D2 diagrams.
+ */
+export class PlantUmlDiagramGenerator implements GraphDiagramGenerator {
+  readonly extension = '.puml';
+
+  constructor(
+    private includeAttributes: boolean = true,
+    private includeMethods: boolean = true
+  ) {}
+
+  generateComponents(graph: ArchitectureGraph, containerTitle: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const lines: string[] = [];
+
+    lines.push('@startuml');
+    lines.push("' NestJS Component Diagram");
+    lines.push('left to right direction');
+    lines.push('skinparam componentStyle rectangle');
+    lines.push('skinparam rectangleRoundCorner 32');
+    lines.push('');
+
+    const addModule = (module: GraphModule, indent: string) => {
+      let label = labels.get(module.id)!;
+      if (module.technology) label += `\\n[Component: ${module.technology}]`;
+      if (module.description) label += `\\n\\n${module.description.split('\n').join('\\n')}`;
+      const color = isSharedModule(graph, module) ? NODE_COLORS.sharedComponent : NODE_COLORS.component;
+      lines.push(`${indent}component "${this.escape(label)}" as ${keys.get(module.id)} ${color}`);
+    };
+
+    lines.push(`rectangle "${this.escape(containerTitle)}\\n[${graph.projects.length > 0 ? 'Software System' : 'Container: NestJS'}]" {`);
+    if (graph.projects.length > 0) {
+      // Monorepos get one rectangle per app and per lib
+      for (const project of graph.projects) {
+        const projectModules = graph.modules.filter(m => m.project === project.name);
+        if (projectModules.length === 0) continue;
+
+        const kind = project.type === 'library' ? 'Library' : 'Container';
+        lines.push(`  rectangle "${this.escape(project.name)}\\n[${kind}: NestJS]" {`);
+        projectModules.forEach(module => addModule(module, '    '));
+        lines.push('  }');
+      }
+      graph.modules.filter(m => !m.project).forEach(module => addModule(module, '  '));
+    } else {
+      graph.modules.forEach(module => addModule(module, '  '));
+    }
+    lines.push('}');
+    lines.push('');
+
+    for (const edge of graph.edges.filter(edge => edge.kind === 'import')) {
+      lines.push(`${keys.get(edge.from)} ${this.arrow(getEdgeStyle(edge))} ${keys.get(edge.to)} : ${this.escape(getEdgeLabel(edge))}`);
+    }
+    lines.push('');
+    lines.push('@enduml');
+
+    return lines.join('\n');
+  }
+
+  generateClasses(graph: ArchitectureGraph, moduleId?: string): string {
+    const keys = getNodeKeys(graph);
+    const labels = getNodeLabels(graph);
+    const view = getClassView(graph, moduleId);
+    const module = graph.modules.find(m => m.id === moduleId);
+    const lines: string[] = [];
+
+    lines.push('@startuml');
+    lines.push(`' NestJS Class Diagram - ${module ? module.name : 'Global'}`);
+    lines.push('hide empty members');
+    lines.push('');
+
+    for (const group of view.groups) {
+      lines.push(`package "${this.escape(labels.get(group.module.id)!)}" as ${keys.get(group.module.id)} <<Rectangle>> {`);
+      group.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, '  '));
+      group.providers.forEach(provider => this.addToken(lines, provider, keys, labels, '  '));
+      lines.push('}');
+      lines.push('');
+    }
+    view.classes.forEach(classInfo => this.addClass(lines, classInfo, keys, labels, ''));
+    view.providers.forEach(provider => this.addToken(lines, provider, keys, labels, ''));
+    lines.push('');
+
+    for (const edge of view.edges) {
+      lines.push(`${keys.get(edge.from)} ${this.arrow(getEdgeStyle(edge))} ${keys.get(edge.to)} : ${this.escape(getEdgeLabel(edge))}`);
+    }
+    lines.push('');
+    lines.push('@enduml');
+
+    return lines.join('\n');
+  }
+
+  private addClass(lines: string[], classInfo: GraphClass, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    const { properties, dependencies, methods } = getClassMembers(classInfo, this.includeAttributes, this.includeMethods);
+    const stereotype = classInfo.stereotype ? ` <<${classInfo.stereotype}>>` : '';
+    const color = classInfo.isInjectable ? ` ${NODE_COLORS.injectable}` : '';
+
+    lines.push(`${indent}class "${this.escape(labels.get(classInfo.id)!)}" as ${keys.get(classInfo.id)}${stereotype}${color} {`);
+    properties.forEach(property => lines.push(`${indent}  +${this.escapeMember(property)}`));
+    if (dependencies.length > 0) {
+      lines.push(`${indent}  .. Dependencies ..`);
+      dependencies.forEach(dependency => lines.push(`${indent}  -${this.escapeMember(dependency)}`));
+    }
+    if (methods.length > 0) {
+      lines.push(`${indent}  --`);
+      methods.forEach(method => lines.push(`${indent}  +${this.escapeMember(method)}`));
+    }
+    lines.push(`${indent}}`);
+  }
+
+  private addToken(lines: string[], provider: GraphProvider, keys: Map<string, string>, labels: Map<string, string>, indent: string): void {
+    lines.push(`${indent}class "${this.escape(labels.get(provider.id)!)}" as ${keys.get(provider.id)} << (T,${NODE_COLORS.token}) token >> ${NODE_COLORS.token}`);
+  }
+
+  private arrow(style: EdgeStyle): string {
+    const options = [style.color, style.bold ? 'bold' : undefined, style.dashed ? 'dashed' : undefined].filter(Boolean);
+    return options.length > 0 ? `-[${options.join(',')}]->` : '-->';
+  }
+
+  private escape(text: string): string {
+    return text.replace(/"/g, "'");
+  }
+
+  // A member starting with { is read as a modifier such as {static}.
+  // Function type arrows are written as in the Mermaid diagrams.
+  private escapeMember(text: string): string {
+    return text.replace(/=>/g, '→').replace(/[{}]/g, '').replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,196 @@
+import { ClassInfo, EndpointInfo, ModuleInfo } from '../types';
+import { DependencyGraph } from '../analyzers/dependency-graph';
+import { DisplayName, getDisplayNames } from './display-names';
+
+// Swagger UI colors, so the diagram reads like the API docs
+const HTTP_METHOD_COLORS: Record<EndpointInfo['httpMethod'], string> = {
+  GET: '#61AFFE',
+  POST: '#49CC90',
+  PUT: '#FCA130',
+  PATCH: '#50E3C2',
+  DELETE: '#F93E3E',
+  OPTIONS: '#0D5AA7',
+  HEAD: '#9012FE',
+  ALL: '#9012FE',
+};
+
+interface ServiceNode {
+  classInfo: ClassInfo;
+  methods: Set<string>;
+}
+
+export class RouteDiagramGenerator {
+  private displayNames = new Map<string, DisplayName>(); // By class and module ID
+
+  generate(endpoints: EndpointInfo[], classes: ClassInfo[], modules: ModuleInfo[]): string {
+    const lines: string[] = [];
+    const graph = new DependencyGraph(modules, classes);
+    this.displayNames = new Map([...getDisplayNames(classes), ...getDisplayNames(modules)]);
+
+    lines.push('# NestJS Route Map');
+    lines.push('');
+    lines.push('direction: right');
+    lines.push('');
+    this.addClassDefinitions(lines);
+    lines.push('');
+
+    // Group endpoints by module and controller ID
+    const controllersByModule = new Map<string, Map<string, EndpointInfo[]>>();
+    for (const endpoint of endpoints) {
+      const moduleId = endpoint.moduleId || '';
+      if (!controllersByModule.has(moduleId)) {
+        controllersByModule.set(moduleId, new Map());
+      }
+      const controllers = controllersByModule.get(moduleId)!;
+      if (!controllers.has(endpoint.controllerId)) {
+        controllers.set(endpoint.controllerId, []);
+      }
+      controllers.get(endpoint.controllerId)!.push(endpoint);
+    }
+
+    // Collect the service methods each handler calls
+    const servicesByModule = new Map<string, Map<string, ServiceNode>>();
+    const edges: string[] = [];
+    for (const endpoint of endpoints) {
+      const controller = classes.find(c => c.id === endpoint.controllerId);
+      const handler = controller?.methods.find(m => m.name === endpoint.handler);
+      if (!controller || !handler) continue;
+
+      for (const call of handler.calls) {
+        const dep = controller.dependencies.find(d => d.name === call.dependency);
+        const target = dep ? graph.resolve(controller, dep).target : undefined;
+        if (!target) continue;
+
+        const moduleId = target.moduleId || '';
+        if (!servicesByModule.has(moduleId)) {
+          servicesByModule.set(moduleId, new Map());
+        }
+        const services = servicesByModule.get(moduleId)!;
+        if (!services.has(target.id)) {
+          services.set(target.id, { classInfo: target, methods: new Set() });
+        }
+        services.get(target.id)!.methods.add(call.method);
+
+        edges.push(`${this.endpointPath(endpoint)} -> ${this.servicePath(target)}.${this.sanitizeName(call.method)}: calls`);
+      }
+    }
+
+    // Create expanded containers for each module
+    const moduleIds = new Set([...controllersByModule.keys(), ...servicesByModule.keys()]);
+    for (const moduleId of moduleIds) {
+      const controllers = controllersByModule.get(moduleId) || new Map<string, EndpointInfo[]>();
+      const services = servicesByModule.get(moduleId) || new Map<string, ServiceNode>();
+      const module = this.displayNames.get(moduleId);
+      const indent = module ? '  ' : '';
+
+      if (module) {
+        lines.push(`${module.key}: ${module.label} {`);
+        lines.push('  class: [container-expanded]');
+        lines.push('');
+      }
+
+      for (const controllerEndpoints of controllers.values()) {
+        this.addControllerNode(lines, controllerEndpoints, indent);
+      }
+      for (const service of services.values()) {
+        this.addServiceNode(lines, service, indent);
+      }
+
+      if (module) {
+        lines.push('}');
+        lines.push('');
+      }
+    }
+
+    lines.push(...edges);
+
+    return lines.join('\n');
+  }
+
+  private addControllerNode(lines: string[], endpoints: EndpointInfo[], indent: string): void {
+    const { key, label } = this.getDisplayName(this.getController(endpoints[0]));
+    lines.push(`${indent}${key}: "${label}" {`);
+    lines.push(`${indent}  class: [controller]`);
+
+    for (const endpoint of endpoints) {
+      lines.push(`${indent}  ${this.sanitizeName(endpoint.handler)}: "${endpoint.httpMethod} ${endpoint.path}" {`);
+      lines.push(`${indent}    class: [endpoint]`);
+      lines.push(`${indent}    style.fill: "${HTTP_METHOD_COLORS[endpoint.httpMethod]}"`);
+      if (endpoint.version) {
+        lines.push(`${indent}    tooltip: "Version ${endpoint.version}"`);
+      }
+      lines.push(`${indent}  }`);
+    }
+
+    lines.push(`${indent}}`);
+    lines.push('');
+  }
+
+  private addServiceNode(lines: string[], service: ServiceNode, indent: string): void {
+    const { key, label } = this.getDisplayName(service.classInfo);
+    lines.push(`${indent}${key}: "${label}" {`);
+    lines.push(`${indent}  class: [service]`);
+
+    for (const method of service.methods) {
+      lines.push(`${indent}  ${this.sanitizeName(method)}: ${method}()`);
+    }
+
+    lines.push(`${indent}}`);
+    lines.push('');
+  }
+
+  private endpointPath(endpoint: EndpointInfo): string {
+    const controllerPath = `${this.getDisplayName(this.getController(endpoint)).key}.${this.sanitizeName(endpoint.handler)}`;
+    const module = endpoint.moduleId ? this.displayNames.get(endpoint.moduleId) : undefined;
+    return module ? `${module.key}.${controllerPath}` : controllerPath;
+  }
+
+  private servicePath(classInfo: ClassInfo): string {
+    const className = this.getDisplayName(classInfo).key;
+    const module = classInfo.moduleId ? this.displayNames.get(classInfo.moduleId) : undefined;
+    return module ? `${module.key}.${className}` : className;
+  }
+
+  private getDisplayName(classInfo: Pick<ClassInfo, 'id' | 'name'>): DisplayName {
+    return this.displayNames.get(classInfo.id) ?? { key: this.sanitizeName(classInfo.name), label: classInfo.name };
+  }
+
+  private getController(endpoint: EndpointInfo): Pick<ClassInfo, 'id' | 'name'> {
+    return { id: endpoint.controllerId, name: endpoint.controller };
+  }
+
+  private addClassDefinitions(lines: string[]): void {
+    lines.push('classes: {');
+    lines.push('  container-expanded: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 32');
+    lines.push('    style.stroke-dash: 3');
+    lines.push('    label.near: bottom-left');
+    lines.push('    style.stroke: "#666666"');
+    lines.push('    style.font-color: "#333333"');
+    lines.push('  }');
+    lines.push('  controller: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#e3f2fd"');
+    lines.push('    style.border-radius: 16');
+    lines.push('  }');
+    lines.push('  endpoint: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.border-radius: 8');
+    lines.push('    style.font-color: "#FFFFFF"');
+    lines.push('    style.bold: true');
+    lines.push('  }');
+    lines.push('  service: {');
+    lines.push('    shape: rectangle');
+    lines.push('    style.fill: "#F5F5F5"');
+    lines.push('    style.border-radius: 16');
+    lines.push('  }');
+    lines.push('}');
+  }
+
+  private sanitizeName(name: string): string {
+    return name
+      .replace(/[^a-zA-Z0-9_]/g, '_')
+      .replace(/^(\d)/, '_$1');
+  }
+}
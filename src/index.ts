@@ -0,0 +1,40 @@
+// Programmatic API. The CLI (cli.ts) parses process.argv on import, so it is not part of it.
+export { analyzeProject, renderDiagrams, AnalyzeOptions, RenderDiagramsOptions, DiagramKind } from './api';
+export { NestD2Plugin, PluginGenerator, DiagramFile } from './plugins';
+export { NestD2Config, loadConfig } from './config';
+export { LintRules, LayerDefinition, ImportRule, DependencyRule, ClassSelector, loadLintRules } from './lint-rules';
+export { C4Component, C4ComponentOptions } from './decorators';
+export * from './types';
+
+export { ModuleAnalyzer } from './analyzers/module-analyzer';
+export { ClassAnalyzer } from './analyzers/class-analyzer';
+export { SourceProject } from './analyzers/source-files';
+export { DependencyGraph, ResolvedDependency } from './analyzers/dependency-graph';
+export { DependencyValidator } from './analyzers/dependency-validator';
+export { CycleDetector } from './analyzers/cycle-detector';
+export { RouteAnalyzer } from './analyzers/route-analyzer';
+export { MessagingAnalyzer, MessageChannel } from './analyzers/messaging-analyzer';
+export { EntityAnalyzer } from './analyzers/entity-analyzer';
+export { DtoAnalyzer } from './analyzers/dto-analyzer';
+export { DiffAnalyzer, ArchitectureDiff, ArchitectureSnapshot } from './analyzers/diff-analyzer';
+export * from './analyzers/architecture-graph';
+export { ArchitectureLinter } from './analyzers/architecture-linter';
+export { MetricsAnalyzer, HEATMAP_METRICS, HeatmapMetric } from './analyzers/metrics-analyzer';
+export { FocusAnalyzer, FocusResult, FocusTarget, FocusDirection, FOCUS_DIRECTIONS } from './analyzers/focus-analyzer';
+
+export { ComponentDiagramGenerator } from './generators/component-diagram';
+export { C4DiagramGenerator } from './generators/c4-diagram';
+export { ClassDiagramGenerator } from './generators/class-diagram';
+export { RouteDiagramGenerator } from './generators/route-diagram';
+export { MessagingDiagramGenerator } from './generators/messaging-diagram';
+export { GraphQLDiagramGenerator } from './generators/graphql-diagram';
+export { ErdDiagramGenerator } from './generators/erd-diagram';
+export { DtoDiagramGenerator } from './generators/dto-diagram';
+export { DiffDiagramGenerator } from './generators/diff-diagram';
+export { LintReportGenerator } from './generators/lint-report';
+export { MetricsReportGenerator, MetricsReportOptions } from './generators/metrics-report';
+export { GraphDiagramGenerator } from './generators/graph-views';
+export { MermaidDiagramGenerator } from './generators/mermaid-diagram';
+export { PlantUmlDiagramGenerator } from './generators/plantuml-diagram';
+export { DotDiagramGenerator } from './generators/dot-diagram';
+export { D2Renderer, RenderOptions, RenderFormat } from './renderers/d2-renderer';
@@ -1,8 +1,8 @@
 import prompts from 'prompts';
-import { ModuleInfo } from './types';
+import { EndpointInfo, ModuleInfo } from './types';
 import { readFileSync, existsSync } from 'fs';
 
-interface ExistingMetadata {
+export interface ExistingMetadata {
   technology?: string;
   description?: string;
 }
@@ -18,8 +18,10 @@ export function parseExistingD2File(filePath: string, containerName: string): Ma
     const content = readFileSync(filePath, 'utf-8');
     const lines = content.split('\n');
 
-    // Sanitize container name to match D2 identifier format
-    const sanitizedContainer = containerName.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+    // Sanitize container name to match D2 identifier format, unless the file
+    // was generated under a different container title
+    const sanitizedContainer = detectContainerName(lines)
+      ?? containerName.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(\d)/, '_$1');
     
     let insideContainerExpanded = false;
     let currentModule: string | null = null;
@@ -31,7 +33,7 @@ export function parseExistingD2File(filePath: string, containerName: string): Ma
       const trimmed = line.trim();
 
       // Check if we're entering the container-expanded block
-      if (trimmed.startsWith(`${sanitizedContainer}:`) && trimmed.includes('|md')) {
+      if (trimmed.startsWith(`${sanitizedContainer}:`) && /\|+md$/.test(trimmed)) {
         insideContainerExpanded = true;
         braceDepth = 0;
         continue;
@@ -54,7 +56,7 @@ export function parseExistingD2File(filePath: string, containerName: string): Ma
       if (!insideContainerExpanded) continue;
 
       // Detect module block start: Container.ModuleName: |md
-      if (trimmed.includes(': |md') && trimmed.startsWith(`${sanitizedContainer}.`)) {
+      if (/: \|+md$/.test(trimmed) && trimmed.startsWith(`${sanitizedContainer}.`)) {
         const match = trimmed.match(new RegExp(`^${sanitizedContainer}\\.([^:]+):`));
         if (match) {
           currentModule = match[1].trim();
@@ -101,7 +103,7 @@ export function parseExistingD2File(filePath: string, containerName: string): Ma
         }
 
         // End of module block
-        if (trimmed === '| {') {
+        if (/^\|+ \{$/.test(trimmed)) {
           inModuleBlock = false;
         }
       }
@@ -113,6 +115,16 @@ export function parseExistingD2File(filePath: string, containerName: string): Ma
   return metadataMap;
 }
 
+function detectContainerName(lines: string[]): string | undefined {
+  for (let i = 0; i < lines.length - 2; i++) {
+    const match = lines[i].match(/^([A-Za-z0-9_]+): \|+md$/);
+    if (match && lines.slice(i + 1, i + 3).some(line => line.includes('[Container:'))) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
 export async function promptForContainerTitle(): Promise<string> {
   const response = await prompts({
     type: 'text',
@@ -146,35 +158,43 @@ export async function promptForDefaultTechnology(): Promise<string> {
   return response.technology || '';
 }
 
-export async function promptForClassDiagramOptions(): Promise<{includeAttributes: boolean, includeMethods: boolean}> {
-  const responses = await prompts([
-    {
+export async function promptForClassDiagramOptions(
+  configured: {includeAttributes?: boolean, includeMethods?: boolean} = {}
+): Promise<{includeAttributes: boolean, includeMethods: boolean}> {
+  // Only ask for options that aren't set in the config file
+  const questions: prompts.PromptObject[] = [];
+  if (configured.includeAttributes === undefined) {
+    questions.push({
       type: 'confirm',
       name: 'includeAttributes',
       message: 'Include class attributes/properties in diagrams?',
       initial: true,
-    },
-    {
+    });
+  }
+  if (configured.includeMethods === undefined) {
+    questions.push({
       type: 'confirm',
       name: 'includeMethods',
       message: 'Include class methods in diagrams?',
       initial: true,
-    }
-  ]);
+    });
+  }
+
+  const responses = questions.length > 0 ? await prompts(questions) : {};
 
   return {
-    includeAttributes: responses.includeAttributes ?? true,
-    includeMethods: responses.includeMethods ?? true,
+    includeAttributes: configured.includeAttributes ?? responses.includeAttributes ?? true,
+    includeMethods: configured.includeMethods ?? responses.includeMethods ?? true,
   };
 }
 
 export async function enrichModuleWithMetadata(
   module: ModuleInfo,
   defaultTechnology: string,
-  existingMetadata?: ExistingMetadata
+  existingMetadata?: ExistingMetadata,
+  configuredMetadata: ExistingMetadata = {},
+  askMissing: boolean = true
 ): Promise<ModuleInfo> {
-  console.log(`\n--- ${module.name} ---`);
-
   // Use existing metadata as fallback
   const existingTech = existingMetadata?.technology || defaultTechnology || 'NestJS';
   const existingDesc = existingMetadata?.description || '';
@@ -182,30 +202,53 @@ export async function enrichModuleWithMetadata(
   const questions: prompts.PromptObject[] = [];
 
   // Technology question with existing value as initial
-  questions.push({
-    type: 'text',
-    name: 'technology',
-    message: existingMetadata?.technology 
-      ? `Technology (press Enter to keep "${existingTech}"):`
-      : `Technology (press Enter for "${existingTech}"):`,
-    initial: existingTech,
-  });
+  if (askMissing && configuredMetadata.technology === undefined) {
+    questions.push({
+      type: 'text',
+      name: 'technology',
+      message: existingMetadata?.technology 
+        ? `Technology (press Enter to keep "${existingTech}"):`
+        : `Technology (press Enter for "${existingTech}"):`,
+      initial: existingTech,
+    });
+  }
 
   // Description question with existing value as initial
-  questions.push({
-    type: 'text',
-    name: 'description',
-    message: existingMetadata?.description
-      ? `Description (press Enter to keep current):`
-      : 'Description (what does this module do?):',
-    initial: existingDesc,
-  });
+  if (askMissing && configuredMetadata.description === undefined) {
+    questions.push({
+      type: 'text',
+      name: 'description',
+      message: existingMetadata?.description
+        ? `Description (press Enter to keep current):`
+        : 'Description (what does this module do?):',
+      initial: existingDesc,
+    });
+  }
 
-  const answers = await prompts(questions);
+  let answers: prompts.Answers<string> = {};
+  if (questions.length > 0) {
+    console.log(`\n--- ${module.name} ---`);
+    answers = await prompts(questions);
+  }
 
   return {
     ...module,
-    technology: answers.technology || existingTech,
-    description: answers.description || existingDesc || '',
+    technology: configuredMetadata.technology ?? (answers.technology || existingTech),
+    description: configuredMetadata.description ?? (answers.description || existingDesc || ''),
   };
+}
+
+export async function promptForEndpoint(endpoints: EndpointInfo[]): Promise<EndpointInfo | undefined> {
+  const response = await prompts({
+    type: 'autocomplete',
+    name: 'endpoint',
+    message: 'Which endpoint do you want to diagram?',
+    choices: endpoints.map(endpoint => ({
+      title: `${endpoint.httpMethod} ${endpoint.path}`,
+      description: `${endpoint.controller}.${endpoint.handler}`,
+      value: endpoint,
+    })),
+  });
+
+  return response.endpoint;
 }
\ No newline at end of file
@@ -0,0 +1,346 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { ClassInfo } from './types';
+
+export const RULES_FILE_NAME = 'nest-d2.rules.json';
+
+// Name and path patterns: * matches within a path segment, ** across them, ! excludes
+export type Patterns = string | string[];
+
+/**
+ * Picks classes. Every given field must match; path patterns are relative
+ * to the project root.
+ */
+export interface ClassSelector {
+  classType?: Patterns;
+  stereotype?: Patterns;
+  className?: Patterns;
+  path?: Patterns;
+  module?: Patterns; // Name of the module declaring or registering the class
+  layer?: Patterns;
+}
+
+/**
+ * Picks injected dependencies: classes like a ClassSelector, and injections
+ * without a class in the project by their kind, entity or token.
+ */
+export interface InjectionSelector extends ClassSelector {
+  injection?: Patterns; // "class", "repository" (@InjectRepository(), @InjectModel()) or "token" (anything else)
+  entity?: Patterns; // Entity behind a repository, e.g. User for @InjectRepository(User)
+  token?: Patterns; // e.g. CONFIG for @Inject('CONFIG'), or a library class such as ConfigService
+}
+
+// What an injection without a class in the project is matched by
+export interface InjectionInfo {
+  injection: 'repository' | 'token';
+  entity?: string;
+  token: string;
+}
+
+export interface LayerDefinition extends Omit<ClassSelector, 'layer'> {
+  name: string;
+}
+
+interface RuleOptions {
+  name?: string; // Reported as the rule ID, defaults to e.g. "imports[0]"
+  description?: string;
+  severity?: 'error' | 'warning'; // Defaults to error
+}
+
+export interface ImportRule extends RuleOptions {
+  from: Patterns; // Names of the importing modules
+  allow?: Patterns; // Only these project modules may be imported
+  forbid?: Patterns;
+}
+
+export interface DependencyRule extends RuleOptions {
+  from: ClassSelector; // The injecting classes
+  allow?: InjectionSelector[]; // Injections must match one of these
+  forbid?: InjectionSelector[];
+}
+
+export interface LintRules {
+  layers?: LayerDefinition[]; // Top to bottom: classes may inject their own layer and those below
+  imports?: ImportRule[];
+  dependencies?: DependencyRule[];
+}
+
+type FieldType = 'string' | 'patterns' | 'severity' | 'selector' | 'injection[]';
+
+const SELECTOR_SCHEMA: Record<string, FieldType> = {
+  classType: 'patterns',
+  stereotype: 'patterns',
+  className: 'patterns',
+  path: 'patterns',
+  module: 'patterns',
+  layer: 'patterns',
+};
+
+const INJECTION_SCHEMA: Record<string, FieldType> = {
+  ...SELECTOR_SCHEMA,
+  injection: 'patterns',
+  entity: 'patterns',
+  token: 'patterns',
+};
+
+const RULE_SCHEMA: Record<string, FieldType> = {
+  name: 'string',
+  description: 'string',
+  severity: 'severity',
+};
+
+const SCHEMAS: Record<keyof LintRules, Record<string, FieldType>> = {
+  layers: {
+    name: 'string',
+    classType: 'patterns',
+    stereotype: 'patterns',
+    className: 'patterns',
+    path: 'patterns',
+    module: 'patterns',
+  },
+  imports: { ...RULE_SCHEMA, from: 'patterns', allow: 'patterns', forbid: 'patterns' },
+  dependencies: { ...RULE_SCHEMA, from: 'selector', allow: 'injection[]', forbid: 'injection[]' },
+};
+
+const REQUIRED: Record<keyof LintRules, string> = {
+  layers: 'name',
+  imports: 'from',
+  dependencies: 'from',
+};
+
+/**
+ * Loads the rules file given with --rules, or nest-d2.rules.json from the
+ * project root.
+ */
+export function loadLintRules(projectPath: string, rulesPath?: string): { rules: LintRules; filePath: string } {
+  const filePath = rulesPath ? resolve(rulesPath) : `${projectPath}/${RULES_FILE_NAME}`;
+  if (!existsSync(filePath)) {
+    throw new Error(`Rules file not found: ${filePath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+  }
+
+  return { rules: validateLintRules(raw, filePath), filePath };
+}
+
+export function validateLintRules(raw: unknown, filePath: string): LintRules {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid rules in ${filePath}: expected an object`);
+  }
+
+  for (const [section, entries] of Object.entries(raw)) {
+    if (!(section in SCHEMAS)) {
+      errors.push(`unknown section "${section}"`);
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      errors.push(`"${section}" must be an array`);
+      continue;
+    }
+
+    const key = section as keyof LintRules;
+    entries.forEach((entry, index) => {
+      const path = `${section}[${index}]`;
+      if (!isObject(entry)) {
+        errors.push(`"${path}" must be an object`);
+        return;
+      }
+      if (entry[REQUIRED[key]] === undefined) {
+        errors.push(`"${path}.${REQUIRED[key]}" is required`);
+      }
+      checkFields(entry, SCHEMAS[key], path, errors);
+    });
+  }
+
+  // Dependency rules can only refer to layers that exist
+  const layerNames = new Set(asArray(raw.layers).filter(isObject).map(layer => layer.name));
+  asArray(raw.dependencies).forEach((rule, index) => {
+    if (!isObject(rule)) return;
+    for (const selector of [rule.from, ...asArray(rule.allow), ...asArray(rule.forbid)]) {
+      if (!isObject(selector)) continue;
+      for (const layer of toPatterns(selector.layer)) {
+        const name = layer.replace(/^!/, '');
+        if (!name.includes('*') && !layerNames.has(name)) {
+          errors.push(`"dependencies[${index}]" refers to unknown layer "${name}"`);
+        }
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rules in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return raw as LintRules;
+}
+
+export function getRuleId(rule: ImportRule | DependencyRule, section: 'imports' | 'dependencies', index: number): string {
+  return rule.name ?? `${section}[${index}]`;
+}
+
+/**
+ * Every rule with its ID and a description, for reports listing the rules
+ * that were checked.
+ */
+export function describeRules(rules: LintRules): { id: string; description: string }[] {
+  const descriptions: { id: string; description: string }[] = [];
+
+  if (rules.layers?.length) {
+    descriptions.push({
+      id: 'layers',
+      description: `Classes only inject classes of their own or a lower layer: ${rules.layers.map(layer => layer.name).join(' > ')}`,
+    });
+  }
+  (rules.imports ?? []).forEach((rule, index) => {
+    const from = [rule.from].flat().join(', ');
+    const constraints = [
+      rule.allow !== undefined ? `may only import ${[rule.allow].flat().join(', ')}` : undefined,
+      rule.forbid !== undefined ? `must not import ${[rule.forbid].flat().join(', ')}` : undefined,
+    ].filter(Boolean);
+    descriptions.push({
+      id: getRuleId(rule, 'imports', index),
+      description: rule.description ?? `${from} ${constraints.join(' and ') || 'may import anything'}`,
+    });
+  });
+  (rules.dependencies ?? []).forEach((rule, index) => {
+    const constraints = [
+      rule.allow !== undefined ? `may only inject ${rule.allow.map(describeSelector).join(' or ')}` : undefined,
+      rule.forbid !== undefined ? `must not inject ${rule.forbid.map(describeSelector).join(' or ')}` : undefined,
+    ].filter(Boolean);
+    descriptions.push({
+      id: getRuleId(rule, 'dependencies', index),
+      description: rule.description
+        ?? `${describeSelector(rule.from)} ${constraints.join(' and ') || 'may inject anything'}`.replace(/^./, char => char.toUpperCase()),
+    });
+  });
+
+  return descriptions;
+}
+
+/**
+ * Whether a name or path matches the patterns: any pattern without ! (or
+ * none at all) and no pattern with !.
+ */
+export function matchesPatterns(value: string, patterns: Patterns | undefined): boolean {
+  const list = toPatterns(patterns);
+  const included = list.filter(pattern => !pattern.startsWith('!'));
+  const excluded = list.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
+
+  return (included.length === 0 || included.some(pattern => globToRegExp(pattern).test(value)))
+    && !excluded.some(pattern => globToRegExp(pattern).test(value));
+}
+
+export function matchesSelector(
+  classInfo: ClassInfo,
+  selector: ClassSelector,
+  context: { relativePath: string; layer?: string }
+): boolean {
+  return matchesField(classInfo.classType ?? 'other', selector.classType)
+    && matchesField(classInfo.stereotype, selector.stereotype)
+    && matchesField(classInfo.name, selector.className)
+    && matchesField(context.relativePath, selector.path)
+    && matchesField(classInfo.moduleContext, selector.module)
+    && matchesField(context.layer, selector.layer);
+}
+
+/**
+ * Whether an injection without a class in the project matches. Selectors
+ * asking for class fields never match it.
+ */
+export function matchesInjection(injection: InjectionInfo, selector: InjectionSelector): boolean {
+  return Object.keys(SELECTOR_SCHEMA).every(key => selector[key as keyof ClassSelector] === undefined)
+    && matchesField(injection.injection, selector.injection)
+    && matchesField(injection.entity, selector.entity)
+    && matchesField(injection.token, selector.token);
+}
+
+// e.g. "classes with layer controllers, path src/**"
+function describeSelector(selector: InjectionSelector): string {
+  const fields = Object.entries(selector).map(([key, patterns]) => `${key} ${[patterns].flat().join('|')}`);
+  const subject = Object.keys(selector).every(key => key in SELECTOR_SCHEMA) ? 'classes' : 'dependencies';
+  return fields.length > 0 ? `${subject} with ${fields.join(', ')}` : 'any class';
+}
+
+// A class without the field only matches selectors that don't ask for it
+function matchesField(value: string | undefined, patterns: Patterns | undefined): boolean {
+  if (patterns === undefined) return true;
+  return value !== undefined && matchesPatterns(value, patterns);
+}
+
+function toPatterns(patterns: unknown): string[] {
+  if (typeof patterns === 'string') return [patterns];
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function checkFields(value: Record<string, unknown>, schema: Record<string, FieldType>, path: string, errors: string[]): void {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const type = schema[key];
+    const fieldPath = `${path}.${key}`;
+
+    if (!type) {
+      errors.push(`unknown option "${fieldPath}"`);
+    } else if (type === 'string' && typeof fieldValue !== 'string') {
+      errors.push(`"${fieldPath}" must be a string`);
+    } else if (type === 'patterns' && !isPatterns(fieldValue)) {
+      errors.push(`"${fieldPath}" must be a string or an array of strings`);
+    } else if (type === 'severity' && fieldValue !== 'error' && fieldValue !== 'warning') {
+      errors.push(`"${fieldPath}" must be "error" or "warning"`);
+    } else if (type === 'selector') {
+      checkSelector(fieldValue, SELECTOR_SCHEMA, fieldPath, errors);
+    } else if (type === 'injection[]') {
+      if (!Array.isArray(fieldValue)) {
+        errors.push(`"${fieldPath}" must be an array of selectors`);
+      } else {
+        fieldValue.forEach((selector, index) => checkSelector(selector, INJECTION_SCHEMA, `${fieldPath}[${index}]`, errors));
+      }
+    }
+  }
+}
+
+function checkSelector(value: unknown, schema: Record<string, FieldType>, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`"${path}" must be a selector object`);
+    return;
+  }
+  checkFields(value, schema, path, errors);
+}
+
+function isPatterns(value: unknown): boolean {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
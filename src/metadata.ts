@@ -0,0 +1,98 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { ModuleInfo } from './types';
+import { ExistingMetadata, parseExistingD2File } from './interactive';
+import { toRelativePath } from './analyzers/symbol-ids';
+
+interface MetadataFile {
+  version: 1;
+  modules: Record<string, ExistingMetadata>;
+}
+
+/**
+ * Technology and description of each module, persisted next to the
+ * component diagram so later runs can offer them as defaults. Entries are
+ * keyed by module file and name, e.g. "src/users/users.module.ts#UsersModule",
+ * so same-named modules of different apps keep their own metadata.
+ */
+export class MetadataStore {
+  private modules = new Map<string, ExistingMetadata>();
+
+  private constructor(private filePath: string, private projectPath: string, readonly exists: boolean) {}
+
+  /**
+   * Loads the metadata of earlier runs for the current modules. A module
+   * renamed within its file keeps the entry left over under its old name.
+   */
+  static load(filePath: string, projectPath: string, modules: ModuleInfo[]): MetadataStore {
+    if (!existsSync(filePath)) {
+      return new MetadataStore(filePath, projectPath, false);
+    }
+
+    const store = new MetadataStore(filePath, projectPath, true);
+    let data: MetadataFile;
+    try {
+      data = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+    }
+
+    for (const [key, entry] of Object.entries(data.modules || {})) {
+      store.modules.set(key, entry);
+    }
+
+    const keys = new Set(modules.map(module => store.getKey(module)));
+    for (const [key, entry] of [...store.modules]) {
+      if (keys.has(key)) continue;
+      const moduleFile = key.slice(0, key.lastIndexOf('#'));
+      const unmatched = modules.filter(m => toRelativePath(store.projectPath, m.filePath) === moduleFile && !store.modules.has(store.getKey(m)));
+      if (unmatched.length === 1) {
+        store.modules.delete(key);
+        store.modules.set(store.getKey(unmatched[0]), entry);
+      }
+    }
+
+    return store;
+  }
+
+  get(module: ModuleInfo): ExistingMetadata | undefined {
+    return this.modules.get(this.getKey(module));
+  }
+
+  set(module: ModuleInfo): void {
+    this.modules.set(this.getKey(module), {
+      technology: module.technology,
+      description: module.description,
+    });
+  }
+
+  /**
+   * One-time migration from the metadata embedded in a previously generated
+   * component diagram. Returns the number of modules imported.
+   */
+  importFromD2(d2FilePath: string, containerTitle: string, modules: ModuleInfo[]): number {
+    let imported = 0;
+
+    // Old diagrams only name the modules, so same-named ones can't be told apart
+    for (const [name, metadata] of parseExistingD2File(d2FilePath, containerTitle)) {
+      const module = modules.find(m => m.name === name);
+      if (!module || this.get(module) || (!metadata.technology && !metadata.description)) continue;
+
+      this.modules.set(this.getKey(module), metadata);
+      imported++;
+    }
+
+    return imported;
+  }
+
+  save(): void {
+    const data: MetadataFile = {
+      version: 1,
+      modules: Object.fromEntries([...this.modules].sort(([a], [b]) => a.localeCompare(b))),
+    };
+    writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+  }
+
+  private getKey(module: ModuleInfo): string {
+    return `${toRelativePath(this.projectPath, module.filePath)}#${module.name}`;
+  }
+}
@@ -0,0 +1,54 @@
+import { AnalysisResult, CustomClassDecorator } from './types';
+
+export interface DiagramFile {
+  path: string; // Relative to the output directory
+  content: string;
+}
+
+export interface PluginGenerator {
+  name: string;
+  generate(result: AnalysisResult): DiagramFile[];
+}
+
+/**
+ * Extends the analysis and the generated diagrams without forking nest-d2.
+ * Plugins are listed in nest-d2.config.ts or passed to analyzeProject().
+ */
+export interface NestD2Plugin {
+  name: string;
+  decorators?: Record<string, CustomClassDecorator>; // Class decorators to recognise, by name
+  transform?(result: AnalysisResult): AnalysisResult | void; // Post-processes the analysis
+  generators?: PluginGenerator[]; // Extra diagrams, written next to the built-in ones
+}
+
+/**
+ * The custom decorators of every plugin; later plugins win on name clashes.
+ */
+export function getPluginDecorators(plugins: NestD2Plugin[]): Record<string, CustomClassDecorator> {
+  return Object.assign({}, ...plugins.map(plugin => plugin.decorators ?? {}));
+}
+
+/**
+ * Runs each plugin's transform in order, feeding it the previous result.
+ */
+export function transformAnalysis(result: AnalysisResult, plugins: NestD2Plugin[]): AnalysisResult {
+  return plugins.reduce((current, plugin) => {
+    if (!plugin.transform) return current;
+    return runPlugin(plugin, () => plugin.transform!(current)) ?? current;
+  }, result);
+}
+
+export function generatePluginDiagrams(result: AnalysisResult, plugins: NestD2Plugin[]): DiagramFile[] {
+  return plugins.flatMap(plugin =>
+    (plugin.generators ?? []).flatMap(generator => runPlugin(plugin, () => generator.generate(result)))
+  );
+}
+
+// Errors name the plugin, since they surface far from its code
+function runPlugin<T>(plugin: NestD2Plugin, run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    throw new Error(`Plugin "${plugin.name}" failed: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,87 @@
+import { execFile } from 'child_process';
+import { existsSync, statSync } from 'fs';
+import { cpus } from 'os';
+import { delimiter, join } from 'path';
+
+export type RenderFormat = 'svg' | 'png' | 'pdf';
+export type RenderLayout = 'dagre' | 'elk';
+
+export const RENDER_FORMATS: RenderFormat[] = ['svg', 'png', 'pdf'];
+export const RENDER_LAYOUTS: RenderLayout[] = ['dagre', 'elk'];
+
+export interface RenderOptions {
+  formats: RenderFormat[];
+  theme?: string;
+  layout?: RenderLayout;
+  sketch?: boolean;
+}
+
+export interface RenderResult {
+  input: string;
+  output: string;
+  error?: string;
+}
+
+/**
+ * Renders .d2 files with a local d2 executable.
+ */
+export class D2Renderer {
+  constructor(private executable: string, private options: RenderOptions) {}
+
+  /**
+   * Looks for d2 in the project's node_modules/.bin, then on the PATH.
+   */
+  static findExecutable(projectPath: string): string | undefined {
+    const binary = process.platform === 'win32' ? 'd2.exe' : 'd2';
+    const candidates = [
+      join(projectPath, 'node_modules', '.bin', binary),
+      ...(process.env.PATH || '').split(delimiter).filter(dir => dir).map(dir => join(dir, binary)),
+    ];
+
+    return candidates.find(candidate => existsSync(candidate));
+  }
+
+  /**
+   * Renders every file to every format, running up to one d2 process per CPU.
+   * With onlyOutdated, skips outputs newer than their .d2 file.
+   */
+  async renderAll(files: string[], onlyOutdated = false): Promise<RenderResult[]> {
+    const jobs = files.flatMap(input =>
+      this.options.formats.map(format => ({ input, output: input.replace(/\.d2$/, `.${format}`) }))
+    ).filter(job => !onlyOutdated || !existsSync(job.output) || statSync(job.output).mtimeMs < statSync(job.input).mtimeMs);
+    const results: RenderResult[] = new Array(jobs.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < jobs.length) {
+        const index = next++;
+        results[index] = await this.render(jobs[index].input, jobs[index].output);
+      }
+    };
+
+    const concurrency = Math.max(1, Math.min(cpus().length, jobs.length));
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    return results;
+  }
+
+  render(input: string, output: string): Promise<RenderResult> {
+    return new Promise(resolve => {
+      execFile(this.executable, [...this.getArguments(), input, output], (error, _stdout, stderr) => {
+        if (error) {
+          resolve({ input, output, error: stderr.trim() || error.message });
+        } else {
+          resolve({ input, output });
+        }
+      });
+    });
+  }
+
+  private getArguments(): string[] {
+    const args: string[] = [];
+    if (this.options.theme !== undefined) args.push(`--theme=${this.options.theme}`);
+    if (this.options.layout) args.push(`--layout=${this.options.layout}`);
+    if (this.options.sketch) args.push('--sketch');
+    return args;
+  }
+}
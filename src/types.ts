@@ -1,27 +1,162 @@
 export interface ModuleInfo {
+  id: string; // "<file path>#<class name>", unique even when names collide
   name: string;
   filePath: string;
   imports: string[];
-  providers: string[];
+  importDetails: ModuleImportInfo[];
+  dynamicModules: DynamicModuleInfo[]; // Static methods returning a DynamicModule
+  providers: ProviderInfo[];
   controllers: string[];
+  classIds: string[]; // IDs of the controller and provider classes registered in the module
   exports: string[];
-  guards?: string[];
-  interceptors?: string[];
-  pipes?: string[];
-  filters?: string[];
+  isGlobal: boolean; // @Global(), or imported as a DynamicModule with global: true
+  guards?: string[]; // Global enhancers registered with APP_GUARD providers
+  interceptors?: string[]; // APP_INTERCEPTOR providers
+  pipes?: string[]; // APP_PIPE providers
+  filters?: string[]; // APP_FILTER providers
+  middleware?: MiddlewareBinding[]; // From configure(consumer: MiddlewareConsumer)
   technology?: string;
   description?: string;
+  tags?: string[]; // From @c4Tags or @C4Component({ tags })
+  project?: string; // Nest CLI workspace app or lib the module belongs to
+}
+
+export interface ExternalSystemInfo {
+  id: string; // e.g. "database:app", the same across runs
+  name: string;
+  kind: 'database' | 'api' | 'message-broker' | 'queue';
+  technology: string;
+  description?: string;
+  usages: ExternalSystemUsage[];
+}
+
+export interface ExternalSystemUsage {
+  source: string; // Call it was inferred from, e.g. TypeOrmModule.forRoot
+  filePath: string;
+  moduleId?: string; // Module that declares or registers the calling class
+}
+
+export interface WorkspaceInfo {
+  rootPath: string;
+  monorepo: boolean; // nest-cli.json with "monorepo": true
+  defaultProject?: string;
+  projects: WorkspaceProject[];
+}
+
+export interface WorkspaceProject {
+  name: string;
+  type: 'application' | 'library';
+  root: string; // Relative to the workspace root
+  sourceRoot: string;
+  entryFile: string; // Without extension, e.g. 'main'
+}
+
+export interface SourceFilter {
+  include: string[]; // Globs relative to the project root
+  exclude: string[];
+}
+
+export interface ModuleImportInfo {
+  name: string;
+  id?: string; // Imported module's ID, when declared in the project
+  isForwardRef: boolean;
+  method?: string; // e.g. forRoot, forFeature, register
+  arguments?: string[];
+  dynamicModule?: DynamicModuleInfo; // Resolved when the method is declared in this project
+  line?: number;
+}
+
+export interface DynamicModuleInfo {
+  method: string;
+  imports: string[];
+  providers: ProviderInfo[];
+  exports: string[];
+  global: boolean;
+}
+
+export interface MiddlewareBinding {
+  middleware: string[]; // consumer.apply(A, B)
+  middlewareIds: string[]; // IDs of the middleware classes; functional middleware such as helmet() has none
+  routes: MiddlewareRoute[]; // .forRoutes(...)
+  exclude: MiddlewareRoute[]; // .exclude(...)
+}
+
+export interface MiddlewareRoute {
+  controller?: string; // forRoutes(UsersController)
+  controllerId?: string;
+  path?: string; // forRoutes('users/*') or forRoutes({ path: 'users', method: RequestMethod.GET })
+  method?: RouteInfo['httpMethod'];
+}
+
+export interface ProviderInfo {
+  token: string; // Class name, string literal value or constant (e.g. a Symbol) name
+  tokenType: 'class' | 'string' | 'constant';
+  tokenId?: string; // Class ID, for class tokens
+  kind: 'class' | 'useClass' | 'useValue' | 'useFactory' | 'useExisting';
+  useClass?: string; // Implementing class for class and useClass providers
+  useClassId?: string;
+  useExisting?: string; // Aliased token for useExisting providers
+  useExistingId?: string; // Class ID, when the aliased token is a class
+  factory?: string; // Factory function name, when not an inline function
+  inject?: string[]; // Factory dependencies
 }
 
 export interface ClassInfo {
+  id: string; // "<file path>#<class name>", unique even when names collide
   name: string;
   filePath: string;
   dependencies: DependencyInfo[];
   isInjectable: boolean;
-  classType?: 'controller' | 'service' | 'guard' | 'interceptor' | 'pipe' | 'filter' | 'middleware' | 'other';
+  classType?: 'controller' | 'resolver' | 'service' | 'guard' | 'interceptor' | 'pipe' | 'filter' | 'middleware' | 'other';
+  stereotype?: string; // Custom decorator registered by a plugin, e.g. 'DomainService'
   moduleContext?: string; // Which module this class belongs to
+  moduleId?: string;
   properties: PropertyInfo[];
   methods: MethodInfo[];
+  controller?: ControllerInfo;
+  enhancers?: EnhancerInfo; // Controller-level @UseGuards/@UseInterceptors/@UsePipes/@UseFilters
+  messages?: MessageInfo[]; // Messages, events and jobs the class produces or consumes
+  resolver?: ResolverInfo; // Set for GraphQL @Resolver classes
+  graphqlType?: GraphQLTypeInfo; // Set for code-first @ObjectType/@InputType/@InterfaceType classes
+}
+
+export interface ResolverInfo {
+  type?: string; // Parent type from @Resolver(() => User) or @Resolver('User')
+  typeId?: string;
+}
+
+export interface GraphQLTypeRef {
+  type: string; // GraphQL type name, e.g. 'String', 'Int' or 'User'
+  typeId?: string; // Class ID, when the type is a class in the project
+  isList: boolean;
+  isNullable: boolean;
+}
+
+export interface GraphQLFieldInfo extends GraphQLTypeRef {
+  name: string;
+}
+
+export interface GraphQLTypeInfo {
+  kind: 'object' | 'input' | 'interface';
+  name: string; // Schema name: the decorator's name argument or the class name
+  fields: GraphQLFieldInfo[];
+}
+
+export interface GraphQLOperationInfo extends GraphQLTypeRef {
+  kind: 'query' | 'mutation' | 'subscription' | 'field'; // 'field' for @ResolveField
+  name: string; // Name in the schema
+}
+
+export interface EnhancerInfo {
+  guards: string[];
+  interceptors: string[];
+  pipes: string[];
+  filters: string[];
+}
+
+export interface ControllerInfo {
+  path: string; // Prefix from @Controller('prefix')
+  version?: string; // @Controller({ version }) or class-level @Version()
 }
 
 export interface PropertyInfo {
@@ -36,24 +171,245 @@ export interface MethodInfo {
   returnType: string;
   isPrivate: boolean;
   parameters: string[];
+  route?: RouteInfo; // Set for controller route handlers
+  graphql?: GraphQLOperationInfo; // Set for resolver queries, mutations, subscriptions and field resolvers
+  calls: MethodCallInfo[]; // Calls to injected dependencies, e.g. this.userService.findAll()
+  enhancers?: EnhancerInfo; // Method-level enhancers
+  parameterPipes?: string[]; // e.g. @Param('id', ParseIntPipe)
+  routeParameters?: RouteParameterInfo[]; // @Body(), @Query(), @Param() and @Headers() parameters of route handlers
+  responseType?: TypeRefInfo; // From @ApiResponse({ type }) and friends, or the return type annotation
+  line?: number;
+}
+
+export interface TypeRefInfo {
+  type: string;
+  typeId?: string; // Class ID, when the type is a class in the project
+  isList: boolean;
+}
+
+export interface RouteParameterInfo extends TypeRefInfo {
+  name: string;
+  source: 'body' | 'query' | 'param' | 'headers';
+  key?: string; // @Param('id') binds a single value instead of the whole object
+}
+
+export interface RouteInfo {
+  httpMethod: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | 'HEAD' | 'ALL';
+  path: string; // Path from the method decorator, e.g. ':id'
+  version?: string; // Method-level @Version()
+}
+
+export interface MethodCallInfo {
+  dependency: string; // Constructor parameter name
+  method: string;
+}
+
+export interface EntityInfo {
+  id: string; // Class ID, or "<schema file>#<model>" for Prisma models
+  name: string; // Class or model name
+  tableName?: string; // Table or collection name, when set explicitly
+  source: 'typeorm' | 'mongoose' | 'prisma';
+  filePath: string;
+  columns: EntityColumnInfo[];
+  relations: EntityRelationInfo[];
+}
+
+export interface EntityColumnInfo {
+  name: string;
+  type: string;
+  isPrimary: boolean;
+  isForeignKey: boolean;
+  isNullable: boolean;
+  isUnique: boolean;
+}
+
+export interface EntityRelationInfo {
+  kind: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+  property: string;
+  target: string; // Entity name
+  targetId?: string;
+  joinColumns: string[]; // Foreign key columns on this side; empty for the inverse side
+}
+
+export interface DtoInfo {
+  id: string; // Class ID
+  name: string;
+  filePath: string;
+  moduleIds: string[]; // Modules whose controllers use the DTO, directly or through nesting and inheritance
+  usages: DtoUsage[]; // Route handlers that take or return it directly
+  bases: DtoBaseInfo[];
+  properties: DtoPropertyInfo[];
+}
+
+export interface DtoUsage {
+  controllerId: string;
+  handler: string;
+  source: RouteParameterInfo['source'] | 'response';
+}
+
+export interface DtoBaseInfo {
+  type: string;
+  typeId?: string;
+  mappedTypes: string[]; // e.g. ['PartialType', 'PickType'] for PartialType(PickType(A, [...])); empty for extends A
+  keys?: string[]; // Properties picked or omitted
+}
+
+export interface DtoPropertyInfo {
+  name: string;
+  type: string;
+  isOptional: boolean; // `?`, @IsOptional(), @ApiPropertyOptional() or @ApiProperty({ required: false })
+  isList: boolean;
+  validators: string[]; // class-validator decorators as written, e.g. 'MinLength(8)'
+  nested?: TypeRefInfo; // DTO class from @Type(() => AddressDto), @ApiProperty({ type }) or the type annotation
+  description?: string; // @ApiProperty({ description })
+  example?: string;
+}
+
+export interface MessageInfo {
+  channel: string; // Message pattern, event name or queue name
+  transport: 'microservice' | 'event-emitter' | 'queue';
+  style: 'request' | 'event' | 'job'; // send()/@MessagePattern, emit()/@EventPattern/@OnEvent, Bull jobs
+  role: 'producer' | 'consumer';
+  method: string; // Handler, or the method that sends the message
+  job?: string; // Bull job name, from queue.add('name') or @Process('name')
+  line?: number;
+}
+
+export interface BootstrapInfo {
+  filePath?: string;
+  globalPrefix?: string;
+  versioning?: {
+    type: 'URI' | 'HEADER' | 'MEDIA_TYPE' | 'CUSTOM';
+    prefix: string; // URI versioning prefix, 'v' by default
+    defaultVersion?: string;
+  };
+  globalEnhancers?: EnhancerInfo; // app.useGlobalGuards() and friends
+}
+
+export interface EndpointInfo {
+  httpMethod: RouteInfo['httpMethod'];
+  path: string; // Full path including global prefix, version and controller prefix
+  version?: string;
+  controller: string;
+  controllerId: string; // Controller class ID
+  handler: string;
+  moduleName?: string;
+  moduleId?: string;
+  filePath: string;
+  line?: number;
 }
 
 export interface DependencyInfo {
   name: string;
   type: string;
+  typeId?: string; // Class ID the type annotation resolves to, following import aliases
   isOptional: boolean;
   token?: string; // For @Inject() tokens
+  tokenId?: string; // Class ID, for @Inject(SomeClass)
+  isForwardRef?: boolean; // @Inject(forwardRef(() => SomeService))
+  entity?: string; // Entity from @InjectRepository(User) or @InjectModel(Cat.name)
+  entityId?: string;
+  prismaModels?: string[]; // Model delegates used through a Prisma client, e.g. 'user' for this.prisma.user
+  line?: number;
+}
+
+export interface CycleInfo {
+  kind: 'module' | 'provider';
+  members: string[]; // Names of the modules or classes forming a strongly connected component
+  path: string[]; // Shortest cycle from the first member back to itself, not necessarily through every member
+  edges: CycleEdge[];
+  unguardedEdges: [string, string][]; // Names at both ends of each edge without forwardRef
+  guard: 'guarded' | 'partial' | 'unguarded';
+}
+
+export interface CycleEdge {
+  from: string; // Module or class ID
+  to: string;
+  isForwardRef: boolean;
+}
+
+export interface DependencyIssue {
+  className: string;
+  filePath: string;
+  line?: number;
+  moduleName: string;
+  dependency: DependencyInfo;
+  token: string;
+  message: string;
+}
+
+export interface LintViolation {
+  rule: string; // The rule's name, or its position such as "imports[1]"
+  severity: 'error' | 'warning';
+  kind: 'import' | 'dependency';
+  from: string; // Module ID for imports, class ID for dependencies
+  to: string; // Module or class ID, or for injections without a class the entity's class ID or the token
+  dependency?: string; // Constructor parameter, for dependency violations
+  filePath: string;
+  line?: number;
+  message: string;
+}
+
+export interface ModuleMetrics {
+  moduleId: string;
+  name: string;
+  providers: number;
+  controllers: number;
+  afferentCoupling: number; // Ca: project modules importing this one
+  efferentCoupling: number; // Ce: project modules this one imports
+  instability?: number; // Ce / (Ca + Ce), absent when the module neither imports nor is imported
+  unusedExports: string[]; // Exported providers no class outside the module injects
+  unusedImports: string[]; // Imported modules none of whose exports the module injects
+}
+
+export interface ClassMetrics {
+  classId: string;
+  name: string;
+  moduleId?: string;
+  injections: number; // Constructor dependencies
+}
+
+export interface ArchitectureMetrics {
+  modules: ModuleMetrics[];
+  classes: ClassMetrics[]; // Most injections first
 }
 
 export interface AnalysisResult {
+  projectPath: string;
+  workspace: WorkspaceInfo;
+  sources: SourceFilter; // Globs the modules and classes were read from
   modules: ModuleInfo[];
   classes: ClassInfo[];
 }
 
+/**
+ * How to classify classes carrying an in-house decorator, e.g. a
+ * @DomainService() that applies @Injectable() itself.
+ */
+export interface CustomClassDecorator {
+  classType?: ClassInfo['classType']; // Defaults to 'service'
+  stereotype?: string; // Shown in class diagrams, defaults to the decorator name
+  injectable?: boolean; // Whether the decorator makes the class injectable, defaults to true
+}
+
 export interface DiagramOptions {
   outputDir: string;
   projectPath: string;
   includePrivate?: boolean;
   interactive?: boolean;
   defaultTechnology?: string;
-}
\ No newline at end of file
+}
+export interface PipelineStep {
+  name: string;
+  scope: 'global' | 'module' | 'controller' | 'method' | 'param';
+  source?: string; // Where a global enhancer or middleware is registered (main.ts or a module)
+}
+
+export interface RequestPipeline {
+  endpoint: EndpointInfo;
+  middleware: PipelineStep[];
+  guards: PipelineStep[];
+  interceptors: PipelineStep[];
+  pipes: PipelineStep[];
+  filters: PipelineStep[]; // In the order Nest tries them when an exception is thrown
+}